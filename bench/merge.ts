@@ -0,0 +1,164 @@
+import Big from 'big.js'
+import { compareTwoStrings } from 'string-similarity'
+import { Transactions } from '../lib/transactions'
+
+// Benchmark Transactions.merge on a synthetic transaction history
+// and check it pairs transactions the same way as the merge did before candidates were indexed
+// Usage: npm run bench -- [size ...]
+
+const DAY = 24 * 60 * 60 * 1000
+
+// The baseline considers every transaction as a candidate, so it is only compared against on smaller sizes
+const BASELINE_LIMIT = 5000
+
+// Matches must be within 3 days of each other when there is more than one
+const WINDOW = 3 * DAY
+
+type Transaction = Transactions.Transaction
+type Compare = (a: Transaction, b: Transaction) => boolean
+
+// Deterministic pseudo-random numbers (mulberry32) so every run uses the same fixture
+function random (seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Build a Firefly history and the Akahu transactions to merge into it
+// Most Akahu transactions are already in Firefly, some a day later than Akahu reports them
+// Some were exported from Akahu before so have its ID, and some are overseas purchases
+// recorded in Firefly in the foreign currency
+function fixture (size: number): [Transactions, Transactions] {
+  const rand = random(size)
+  const firefly = new Transactions()
+  const akahu = new Transactions()
+
+  for (let ix = 0; ix < size; ix++) {
+    const counterparty = Math.floor(rand() * 200)
+    const transaction: Omit<Transaction, 'id'> = {
+      fireflyId: undefined,
+      akahuIds: new Set([`trans_${ix}`]),
+      description: `Merchant ${counterparty}`,
+      date: new Date(Date.UTC(2020, 0, 1) + Math.floor(rand() * 4 * 365) * DAY),
+      amount: Big(Math.floor(rand() * 10000)).div(100),
+      sourceId: 1 + Math.floor(rand() * 5),
+      destinationId: 10 + counterparty,
+      currencyCode: 'NZD'
+    }
+
+    if (rand() < 0.1) {
+      transaction.foreignAmount = transaction.amount.times(0.6).round(2)
+      transaction.foreignCurrencyCode = 'USD'
+    }
+
+    if (rand() < 0.9) {
+      const exported = rand() < 0.5
+      const recorded: Omit<Transaction, 'id'> = {
+        ...transaction,
+        fireflyId: ix + 1,
+        akahuIds: new Set(exported ? transaction.akahuIds : []),
+        date: exported ? transaction.date : new Date(transaction.date.getTime() + Math.floor(rand() * 2) * DAY)
+      }
+      if (!exported && transaction.foreignAmount !== undefined) {
+        recorded.amount = transaction.foreignAmount
+        recorded.currencyCode = 'USD'
+        delete recorded.foreignAmount
+        delete recorded.foreignCurrencyCode
+      }
+      firefly.create(recorded)
+    }
+    akahu.create(transaction)
+  }
+
+  return [firefly, akahu]
+}
+
+// Akahu IDs must match when both transactions have them, as when syncing
+const compare: Compare = (a, b) => {
+  if (a.akahuIds.size === 0 || b.akahuIds.size === 0) return true
+  return [...a.akahuIds].sort().join(',') === [...b.akahuIds].sort().join(',')
+}
+
+function sameCurrency (a: Transaction, b: Transaction): boolean {
+  return a.currencyCode === undefined || b.currencyCode === undefined || a.currencyCode === b.currencyCode
+}
+
+function sameAmount (a: Transaction, b: Transaction): boolean {
+  if (sameCurrency(a, b)) return a.amount.eq(b.amount)
+  if (a.foreignCurrencyCode === b.currencyCode && a.foreignAmount?.eq(b.amount) === true) return true
+  return b.foreignCurrencyCode === a.currencyCode && b.foreignAmount?.eq(a.amount) === true
+}
+
+// Copy of findBestTransaction before candidates were indexed, checking every transaction
+function findBestTransaction (transaction: Transaction, transactions: Transaction[]): Transaction | undefined {
+  const matches = transactions.filter(other => {
+    if (sameCurrency(transaction, other)) {
+      if (transaction.foreignAmount !== undefined && other.foreignAmount !== undefined && !transaction.foreignAmount.eq(other.foreignAmount)) return false
+      if (transaction.foreignCurrencyCode !== undefined && other.foreignCurrencyCode !== undefined && transaction.foreignCurrencyCode !== other.foreignCurrencyCode) return false
+    }
+    return (transaction.fireflyId === undefined || other.fireflyId === undefined || transaction.fireflyId === other.fireflyId) &&
+      transaction.sourceId === other.sourceId &&
+      transaction.destinationId === other.destinationId &&
+      sameAmount(transaction, other) &&
+      compare(transaction, other)
+  })
+  if (matches.length < 2) return matches[0]
+
+  const similarities = matches.map(other => ({
+    date: Math.abs(transaction.date.getTime() - other.date.getTime()),
+    description: compareTwoStrings(transaction.description, other.description),
+    transaction: other
+  })).filter(x => x.date < WINDOW)
+  similarities.sort((a, b) => a.date - b.date !== 0 ? a.date - b.date : a.description - b.description)
+  return similarities[0]?.transaction
+}
+
+// Copy of the merge loop before candidates were indexed, giving the pairs of left and right IDs matched
+function baselinePairs (firefly: Transactions, akahu: Transactions): string[] {
+  const left = new Map([...firefly].map(transaction => [transaction.id, transaction]))
+  const right = new Map([...akahu].map(transaction => [transaction.id, transaction]))
+  const pairs: string[] = []
+
+  left.forEach(transaction => {
+    const match = findBestTransaction(transaction, [...right.values()])
+    if (match === undefined) return
+    left.delete(transaction.id)
+    right.delete(match.id)
+    pairs.push(`${transaction.id}|${match.id}`)
+  })
+  right.forEach(transaction => {
+    const match = findBestTransaction(transaction, [...left.values()])
+    if (match === undefined) return
+    left.delete(match.id)
+    right.delete(transaction.id)
+    pairs.push(`${match.id}|${transaction.id}`)
+  })
+
+  return pairs.sort()
+}
+
+function time<T> (run: () => T): [T, number] {
+  const start = process.hrtime.bigint()
+  const result = run()
+  return [result, Number(process.hrtime.bigint() - start) / 1e6]
+}
+
+const sizes = process.argv.slice(2).map(size => parseInt(size))
+for (const size of sizes.length > 0 ? sizes : [1000, 5000, 40000]) {
+  const [firefly, akahu] = fixture(size)
+  const baselineFirefly = firefly.duplicate()
+  const baselineAkahu = akahu.duplicate()
+
+  // Both transactions of each pair are passed to the merge callback
+  const pairs: string[] = []
+  const [remainders, indexed] = time(() => firefly.merge(akahu, compare, (a, b) => pairs.push(`${a.id}|${b.id}`)))
+  console.log(`${size} transactions: indexed merge took ${indexed.toFixed(0)}ms, ${remainders.right.size} unmatched`)
+  if (size > BASELINE_LIMIT) continue
+
+  const [expected, baseline] = time(() => baselinePairs(baselineFirefly, baselineAkahu))
+  const identical = pairs.sort().join(',') === expected.join(',')
+  console.log(`${size} transactions: baseline took ${baseline.toFixed(0)}ms, pairs ${identical ? 'identical' : 'DIFFER'}`)
+}
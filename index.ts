@@ -1,93 +1,280 @@
 import knex from 'knex'
 import type { Knex } from 'knex'
-import { production } from './knexfile'
+import { production, firefly as fireflyConfig } from './knexfile'
 import { AkahuClient } from 'akahu'
-import type { Account, Transaction, TransactionQueryParams } from 'akahu'
+import type { AkahuClientConfig, Protocol } from 'akahu'
 
 import { Firefly } from './lib/firefly'
+import { Fingerprints, ManualEditPolicy } from './lib/fingerprints'
+import { SyncJournal } from './lib/sync-journal'
 import * as akahuImport from './lib/akahu-import'
-import type { Transactions } from './lib/transactions'
+import { printHistory } from './lib/akahu-history'
+import { markAkahuTransactionsDeleted, refreshAkahuData, syncAkahu } from './lib/akahu-sync'
+import { Categories } from './lib/categories'
+import { ChosenAccounts } from './lib/chosen-accounts'
+import { MatchReport } from './lib/match-report'
+import { MergePolicy } from './lib/merge-policy'
+import { ReviewQueue } from './lib/review-queue'
+import { Rules } from './lib/rules'
+import { WebhookServer } from './lib/webhook-server'
 
-interface Row<T> {
-  id: string
-  data: T
+// Whether to check Firefly balances against Akahu after exporting
+enum Reconcile {
+  None = 'none',
+  Report = 'report',
+  Create = 'create'
 }
 
-// Get Akahu accounts and update the DB cache
-async function updateAkahuAccounts (
-  accountsTable: Knex.QueryInterface<Row<Account>>,
-  akahu: AkahuClient,
-  userToken: string
+// Merge the cached Akahu transactions into Firefly
+async function syncFirefly (
+  db: Knex,
+  fireflyDb: Knex,
+  apiKey: string,
+  basePath: string,
+  importOptions: akahuImport.ImportOptions,
+  range: akahuImport.ImportRange,
+  deletionPolicy: akahuImport.DeletionPolicy,
+  editPolicy: ManualEditPolicy,
+  reconcile: Reconcile,
+  dryRun: boolean,
+  reportPath: string | undefined
 ): Promise<void> {
-  const accounts = await akahu.accounts.list(userToken)
-  const cacheAccounts = accounts.map(account => ({ id: account._id, data: account }))
-  await accountsTable.insert(cacheAccounts).onConflict('id').merge()
+  // Explain match decisions if a report was asked for
+  const report = reportPath === undefined ? undefined : new MatchReport()
+
+  console.log('Importing Firefly accounts and transactions')
+  const firefly = new Firefly(apiKey, basePath, fireflyDb)
+  await firefly.import()
+
+  console.log('Removing transactions deleted from Akahu')
+  await akahuImport.removeDeletedTransactions(db, firefly.transactions, deletionPolicy)
+
+  console.log('Importing Akahu accounts')
+  await akahuImport.importAccounts(db, firefly.accounts)
+
+  console.log('Importing Akahu transactions')
+  const chosenAccounts = await ChosenAccounts.load(db)
+  const akahuTransactions = await akahuImport.importTransactions(db, firefly.accounts, firefly.transactions, chosenAccounts, importOptions, range, report)
+
+  console.log('Merging transactions')
+  firefly.transactions.merge(akahuTransactions, (a, b) => {
+    // Provisional (pending) entries only match the same pending transaction
+    // or a settled transaction that hasn't been exported yet
+    const aProvisional = a.pendingId !== undefined && a.akahuIds.size === 0
+    const bProvisional = b.pendingId !== undefined && b.akahuIds.size === 0
+    if (aProvisional && bProvisional) return a.pendingId === b.pendingId
+    if (aProvisional && b.akahuIds.size > 0) return b.fireflyId === undefined
+    if (bProvisional && a.akahuIds.size > 0) return a.fireflyId === undefined
+
+    // Check Akahu IDs match
+    if (a.akahuIds.size === 0 || b.akahuIds.size === 0) return true
+    return [...a.akahuIds].sort().join(',') === [...b.akahuIds].sort().join(',')
+  }, undefined, report, transaction => {
+    // Use the merge policy for the transaction's accounts
+    const names = [transaction.sourceId, transaction.destinationId].flatMap(id => firefly.accounts.get(id)?.name ?? [])
+    return importOptions.mergePolicy.get(names)
+  })
+
+  console.log('Removing provisional transactions no longer pending')
+  await akahuImport.removeStaleProvisionalTransactions(db, firefly.transactions)
+
+  if (report !== undefined && reportPath !== undefined) report.save(reportPath)
+
+  console.log('Exporting transactions to Firefly')
+  const fingerprints = await Fingerprints.load(db)
+  const journal = dryRun ? undefined : await SyncJournal.start(db)
+  await firefly.export(dryRun, fingerprints, editPolicy, journal)
+  if (!dryRun) {
+    await fingerprints.save(db)
+    await chosenAccounts.save(db)
+  }
+
+  if (reconcile !== Reconcile.None) {
+    console.log('Reconciling account balances')
+    const balances = await akahuImport.importBalances(db)
+    await firefly.reconcile(balances, reconcile === Reconcile.Create, dryRun, journal)
+  }
+
+  // Reconciliation transactions belong to the run as well
+  await journal?.finish()
 }
 
-// Get Akahu transactions and update the DB cache
-async function updateAkahuTransactions (
-  accountsTable: Knex.QueryInterface<Row<Transaction>>,
-  akahu: AkahuClient,
-  userToken: string
-): Promise<void> {
-  const query: TransactionQueryParams = {}
-
-  do {
-    const transactions = await akahu.transactions.list(userToken, query)
-    const cacheAccounts = transactions.items.map(transaction => ({ id: transaction._id, data: transaction }))
-    await accountsTable.insert(cacheAccounts).onConflict('id').merge()
-    query.cursor = transactions.cursor.next
-  } while (query.cursor !== null)
+// Find journals in Firefly that duplicate each other, optionally merging each group into one
+async function dedupeFirefly (db: Knex, fireflyDb: Knex, apiKey: string, basePath: string, apply: boolean): Promise<void> {
+  console.log('Importing Firefly accounts and transactions')
+  const firefly = new Firefly(apiKey, basePath, fireflyDb)
+  await firefly.import()
+
+  const groups = firefly.transactions.findDuplicates()
+  if (groups.length === 0) {
+    console.log('No duplicate transactions found')
+    return
+  }
+
+  groups.forEach(group => {
+    console.log(`${group.length} duplicates`)
+    group.forEach((transaction, ix) => {
+      const akahuIds = [...transaction.akahuIds].join(',')
+      console.log(`  ${ix === 0 ? '*' : ' '} ${transaction.fireflyId ?? ''} ${transaction.date.toISOString()} ${transaction.amount.toString()} ${transaction.description} ${akahuIds}`)
+    })
+  })
+  if (!apply) return
+
+  console.log('Merging duplicate transactions')
+  groups.forEach(group => firefly.transactions.mergeDuplicates(group))
+
+  // Merged details are written over any manual edits, as the merge starts from what is in Firefly
+  const fingerprints = await Fingerprints.load(db)
+  const journal = await SyncJournal.start(db)
+  await firefly.export(false, fingerprints, ManualEditPolicy.Overwrite, journal)
+  await journal.finish()
+  await fingerprints.save(db)
 }
 
 async function main (): Promise<void> {
   console.log('Starting')
 
   const db = knex(production)
-  const accountsTable = db<Row<Account>, any>('akahu_accounts')
-  const transactionsTable = db<Row<Transaction>, any>('akahu_transactions')
+  const fireflyDb = knex(fireflyConfig)
+
+  // Show how a cached Akahu account or transaction has changed over time
+  if (process.argv[2] === 'history') {
+    const akahuId = process.argv[3]
+    if (akahuId === undefined) throw new Error('Usage: history <akahu-id>')
+    await printHistory(db, akahuId)
+    return
+  }
+
+  // List transactions waiting for their counterparty to be chosen
+  if (process.argv[2] === 'review') {
+    await ReviewQueue.print(db)
+    return
+  }
+
+  // Choose the counterparty account for a transaction in the review queue
+  if (process.argv[2] === 'resolve') {
+    const [akahuId, account] = process.argv.slice(3)
+    if (akahuId === undefined || account === undefined) throw new Error('Usage: resolve <akahu-id> <account-name>')
+    await ReviewQueue.resolve(db, akahuId, account)
+    return
+  }
+
+  const basePath = process.env['FIREFLY_BASE_PATH']
+  if (basePath === undefined) throw new Error('$FIREFLY_BASE_PATH is not set')
+
+  const apiKey = process.env['FIREFLY_API_KEY']
+  if (apiKey === undefined) throw new Error('$FIREFLY_API_KEY is not set')
+
+  const dryRun = process.env['DRY_RUN'] === 'true'
+
+  // Undo the Firefly changes made by a sync run
+  if (process.argv[2] === 'rollback') {
+    const runId = parseInt(process.argv[3] ?? '')
+    if (isNaN(runId)) throw new Error('Usage: rollback <run-id>')
+
+    const changes = await SyncJournal.changes(db, runId)
+    const fingerprints = await Fingerprints.load(db)
+    const firefly = new Firefly(apiKey, basePath, fireflyDb)
+    await firefly.rollback(changes, fingerprints, dryRun)
+    if (!dryRun) {
+      await fingerprints.save(db)
+      await SyncJournal.markRolledBack(db, runId)
+    }
+    return
+  }
+
+  // List duplicate transactions in Firefly, merging them with --apply
+  if (process.argv[2] === 'dedupe') {
+    const apply = process.argv[3] === '--apply'
+    await dedupeFirefly(db, fireflyDb, apiKey, basePath, apply && !dryRun)
+    return
+  }
 
   // Initialise Akahu client
   const appToken = process.env['AKAHU_APP_TOKEN']
   if (appToken === undefined) throw new Error('$AKAHU_APP_TOKEN is not set')
-  const akahu = new AkahuClient({ appToken })
+  const akahuConfig: AkahuClientConfig = { appToken }
+
+  // Allow the Akahu API to be substituted, e.g. with a local fake server for testing
+  const akahuHost = process.env['AKAHU_API_HOST']
+  if (akahuHost !== undefined) akahuConfig.host = akahuHost
+  const akahuPort = process.env['AKAHU_API_PORT']
+  if (akahuPort !== undefined) akahuConfig.port = parseInt(akahuPort)
+  const akahuProtocol = process.env['AKAHU_API_PROTOCOL']
+  if (akahuProtocol !== undefined) akahuConfig.protocol = akahuProtocol as Protocol
+
+  const akahu = new AkahuClient(akahuConfig)
 
   // Get Akahu user token
   const userToken = process.env['AKAHU_USER_TOKEN']
   if (userToken === undefined) throw new Error('$AKAHU_USER_TOKEN is not set')
 
-  if (process.env['LOAD_AKAHU_DATA'] === 'true') {
-    await updateAkahuAccounts(accountsTable, akahu, userToken)
-    await updateAkahuTransactions(transactionsTable, akahu, userToken)
+  const overlapDays = parseInt(process.env['AKAHU_SYNC_OVERLAP_DAYS'] ?? '7')
+  const fullSync = process.env['AKAHU_FULL_SYNC'] === 'true'
+  const reportPath = process.env['MATCH_REPORT']
+
+  const importOptions: akahuImport.ImportOptions = {
+    rules: Rules.load(process.env['AKAHU_RULES_FILE']),
+    categories: Categories.load(process.env['AKAHU_CATEGORIES_FILE']),
+    mergePolicy: MergePolicy.load(process.env['MERGE_POLICY_FILE']),
+    minRating: parseFloat(process.env['FUZZY_MATCH_MIN_RATING'] ?? '0'),
+    feesAccount: process.env['BANK_FEES_ACCOUNT'] ?? 'Bank fees',
+    interestAccount: process.env['INTEREST_ACCOUNT'] ?? 'Interest',
+    cashAccount: process.env['CASH_ACCOUNT'] ?? 'Cash',
+    transferWindowDays: parseFloat(process.env['TRANSFER_PAIR_WINDOW_DAYS'] ?? '3'),
+    transferTimeoutDays: parseFloat(process.env['TRANSFER_PAIR_TIMEOUT_DAYS'] ?? '14'),
+    transferPlaceholderAccount: process.env['TRANSFER_PLACEHOLDER_ACCOUNT'] ?? 'Unmatched transfers',
+    pendingWindowDays: parseFloat(process.env['PENDING_MATCH_WINDOW_DAYS'] ?? '7'),
+    pendingAmountTolerance: parseFloat(process.env['PENDING_AMOUNT_TOLERANCE'] ?? '0.2')
   }
 
-  const basePath = process.env['FIREFLY_BASE_PATH']
-  if (basePath === undefined) throw new Error('$FIREFLY_BASE_PATH is not set')
+  const reconcile = (process.env['RECONCILE'] ?? Reconcile.None) as Reconcile
+  if (!Object.values(Reconcile).includes(reconcile)) {
+    throw new Error(`$RECONCILE must be one of ${Object.values(Reconcile).join(', ')}`)
+  }
 
-  const apiKey = process.env['FIREFLY_API_KEY']
-  if (apiKey === undefined) throw new Error('$FIREFLY_API_KEY is not set')
+  const deletionPolicy = (process.env['AKAHU_DELETION_POLICY'] ?? akahuImport.DeletionPolicy.Flag) as akahuImport.DeletionPolicy
+  if (!Object.values(akahuImport.DeletionPolicy).includes(deletionPolicy)) {
+    throw new Error(`$AKAHU_DELETION_POLICY must be one of ${Object.values(akahuImport.DeletionPolicy).join(', ')}`)
+  }
 
-  console.log('Importing Firefly accounts and transactions')
-  const firefly = new Firefly(apiKey, basePath)
-  firefly.import()
+  const editPolicy = (process.env['MANUAL_EDIT_POLICY'] ?? ManualEditPolicy.Merge) as ManualEditPolicy
+  if (!Object.values(ManualEditPolicy).includes(editPolicy)) {
+    throw new Error(`$MANUAL_EDIT_POLICY must be one of ${Object.values(ManualEditPolicy).join(', ')}`)
+  }
 
-  console.log('Importing Akahu transactions')
-  const akahuTransactions = await akahuImport.importTransactions(firefly.accounts)
+  // Run as a webhook receiver, syncing the accounts Akahu reports changes to
+  if (process.argv[2] === 'serve') {
+    const port = parseInt(process.env['WEBHOOK_PORT'] ?? '8080')
+    const debounceSeconds = parseInt(process.env['WEBHOOK_DEBOUNCE_SECONDS'] ?? '30')
 
-  console.log('Merging transactions')
-  firefly.transactions.merge(akahuTransactions, (a, b) => {
-    // Check Akahu IDs match
-    if (a.akahuIds.size === 0 || b.akahuIds.size === 0) return true
-    return [...a.akahuIds].sort().join(',') === [...b.akahuIds].sort().join(',')
-  }, (a: Transactions.Transaction, b: Transactions.Transaction) => {
-    // Combine the two descriptions
-    a.description = b.description
-  })
+    const server = new WebhookServer(akahu, userToken, debounceSeconds, async (targets, removedIds) => {
+      await markAkahuTransactionsDeleted(db, removedIds)
+      await syncAkahu(db, akahu, userToken, targets, overlapDays, false)
 
-  const dryRun = process.env['DRY_RUN'] === 'true'
+      // Only import transactions around the changes, leaving room for transfers to be paired
+      const start = new Date(Math.min(Date.now(), ...[...targets.values()].map(since => since?.getTime() ?? Date.now())))
+      start.setDate(start.getDate() - overlapDays)
+      await syncFirefly(db, fireflyDb, apiKey, basePath, importOptions, { start }, deletionPolicy, editPolicy, reconcile, dryRun, reportPath)
+    })
 
-  console.log('Exporting transactions to Firefly')
-  await firefly.export(dryRun)
+    console.log(`Listening for Akahu webhooks on port ${port}`)
+    await server.listen(port)
+    return
+  }
+
+  if (process.env['LOAD_AKAHU_DATA'] === 'true') {
+    // Optionally have Akahu fetch the latest data from the banks first
+    if (process.env['AKAHU_REFRESH'] === 'true') {
+      const timeout = parseInt(process.env['AKAHU_REFRESH_TIMEOUT'] ?? '300')
+      const interval = parseInt(process.env['AKAHU_REFRESH_INTERVAL'] ?? '10')
+      await refreshAkahuData(db, akahu, userToken, timeout, interval)
+    }
+
+    await syncAkahu(db, akahu, userToken, undefined, overlapDays, fullSync)
+  }
+
+  await syncFirefly(db, fireflyDb, apiKey, basePath, importOptions, {}, deletionPolicy, editPolicy, reconcile, dryRun, reportPath)
 
   console.log('Finished')
 }
@@ -162,6 +162,26 @@ export class Accounts implements Iterable<Accounts.Account> {
     return [bestMatch, bestRating]
   }
 
+  // Rate every account against the source name, best matches first
+  // Each account is rated using the best of its names
+  public getByNameFuzzyCandidates (source: string, limit: number): Array<[Accounts.Account, number]> {
+    const ratings: Map<number, [Accounts.Account, number]> = new Map()
+
+    // Do a case-insensitive compare by lowering case
+    source = Accounts.normalizeName(source)
+
+    for (const [name, account] of this.nameIndex.entries()) {
+      const rating = compareTwoStrings(source, name)
+      const existing = ratings.get(account.id)
+      if (existing === undefined || rating > existing[1]) ratings.set(account.id, [account, rating])
+    }
+
+    return [...ratings.values()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([account, rating]) => [this.clone(account), rating])
+  }
+
   public save (account: Accounts.Account): void {
     // Check if the ID exists
     const existing = this.accounts.get(account.id)
@@ -217,7 +237,8 @@ export namespace Accounts {
     Asset = 'asset',
     Liability = 'liability',
     Expense = 'expense',
-    Revenue = 'revenue'
+    Revenue = 'revenue',
+    Reconciliation = 'reconciliation'
   }
 
   export interface Account {
@@ -234,6 +255,8 @@ export namespace Accounts {
     } | undefined
     akahuId: string | undefined
     name: string
+    // ISO 4217 code of the currency the account is held in
+    currencyCode?: string | undefined
     bankNumbers: Set<string>
     alternateNames: Map<string, string>
   }
@@ -0,0 +1,90 @@
+import type { Knex } from 'knex'
+import { Util } from './util'
+
+interface Row<T> {
+  id: string
+  data: T
+}
+
+interface HistoryRow {
+  id: number
+  akahu_id: string
+  data: unknown
+  fetched_at: Date
+}
+
+// Record any new or changed Akahu records before they overwrite the cache
+export async function recordVersions (db: Knex, cacheTable: string, rows: Array<Row<unknown>>, fetchedAt: Date): Promise<void> {
+  if (rows.length === 0) return
+
+  const cached: Array<Row<unknown>> = await db(cacheTable).whereIn('id', rows.map(row => row.id)).select('id', 'data')
+  const cachedData = new Map(cached.map(row => [row.id, JSON.stringify(row.data)]))
+
+  const versions = rows
+    .filter(row => cachedData.get(row.id) !== JSON.stringify(row.data))
+    .map(row => ({ akahu_id: row.id, data: row.data, fetched_at: fetchedAt }))
+
+  if (versions.length > 0) {
+    await db<HistoryRow>('akahu_history').insert(versions)
+  }
+}
+
+// Flatten nested data into a map of paths to JSON values
+function flatten (data: unknown, path: string, result: Map<string, string>): Map<string, string> {
+  if (data !== null && typeof data === 'object') {
+    Object.entries(data).forEach(([key, value]) => {
+      flatten(value, path === '' ? key : `${path}.${key}`, result)
+    })
+  } else {
+    result.set(path, Util.stringify(data))
+  }
+  return result
+}
+
+// Describe the differences between two versions of an Akahu record
+function diff (before: unknown, after: unknown): string[] {
+  const beforeFields = flatten(before, '', new Map())
+  const afterFields = flatten(after, '', new Map())
+  const changes: string[] = []
+
+  beforeFields.forEach((value, path) => {
+    const newValue = afterFields.get(path)
+    if (newValue === undefined) {
+      changes.push(`- ${path}: ${value}`)
+    } else if (newValue !== value) {
+      changes.push(`~ ${path}: ${value} -> ${newValue}`)
+    }
+  })
+
+  afterFields.forEach((value, path) => {
+    if (!beforeFields.has(path)) changes.push(`+ ${path}: ${value}`)
+  })
+
+  return changes
+}
+
+// Print each version of an Akahu record and what changed between them
+export async function printHistory (db: Knex, akahuId: string): Promise<void> {
+  const versions = await db<HistoryRow>('akahu_history')
+    .where('akahu_id', akahuId)
+    .orderBy('fetched_at')
+    .orderBy('id')
+
+  if (versions.length === 0) {
+    console.log(`No history for ${akahuId}`)
+    return
+  }
+
+  let previous: unknown
+  versions.forEach((version, ix) => {
+    console.log(`Version ${ix + 1} fetched ${version.fetched_at.toISOString()}`)
+    if (ix === 0) {
+      console.log(JSON.stringify(version.data, null, 2))
+    } else {
+      diff(previous, version.data).forEach(change => {
+        console.log(`  ${change}`)
+      })
+    }
+    previous = version.data
+  })
+}
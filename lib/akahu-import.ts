@@ -1,8 +1,14 @@
-import knex from 'knex'
+import type { Knex } from 'knex'
 import Big from 'big.js'
-import type { Transaction as AkahuTransaction } from 'akahu'
-import { production } from '../knexfile'
+import { compareTwoStrings } from 'string-similarity'
+import type { Account as AkahuAccount, PendingTransaction, Transaction as AkahuTransaction } from 'akahu'
 import { Accounts } from './accounts'
+import type { Categories } from './categories'
+import type { ChosenAccounts } from './chosen-accounts'
+import type { MatchReport } from './match-report'
+import { MergePolicy } from './merge-policy'
+import type { Rules } from './rules'
+import { ReviewQueue } from './review-queue'
 import { Transactions } from './transactions'
 import { Util } from './util'
 
@@ -18,54 +24,272 @@ interface Row<T> {
   data: T
 }
 
+// Our side of a provisional entry, used to find the transaction it settles as
+interface Provisional {
+  pendingId: string
+  akahuAccountId: string
+  amount: Big
+  date: Date
+  description: string
+}
+
+// Internal transfer leg still waiting for its other leg
+interface UnpairedTransfer {
+  id: string
+  first_seen_at: Date
+}
+
+// Map Akahu account types to Asset and Liability
+// Other types of account (KiwiSaver, investments etc.) are not set up automatically
+const AccountTypeMapping: { [K in AkahuAccount['type']]?: Accounts.Type } = {
+  CHECKING: Accounts.Type.Asset,
+  SAVINGS: Accounts.Type.Asset,
+  FOREIGN: Accounts.Type.Asset,
+  WALLET: Accounts.Type.Asset,
+  CREDITCARD: Accounts.Type.Liability,
+  LOAN: Accounts.Type.Liability
+}
+
+// Configuration for importing Akahu transactions
+export interface ImportOptions {
+  rules: Rules
+  categories: Categories
+  // How Akahu transactions are merged into matching Firefly transactions
+  mergePolicy: MergePolicy
+  // Fuzzy name matches rated below this are queued for review
+  minRating: number
+  // Expense account for bank fees, including currency conversion fees
+  feesAccount: string
+  // Revenue account for interest
+  interestAccount: string
+  // Asset account for ATM withdrawals and deposits
+  cashAccount: string
+  // Maximum number of days between the two legs of an internal transfer
+  transferWindowDays: number
+  // Unpaired transfer legs are held back for this many days
+  // After that they are exported against the placeholder account
+  transferTimeoutDays: number
+  transferPlaceholderAccount: string
+  // Maximum number of days between a pending transaction and the transaction it settles as
+  pendingWindowDays: number
+  // Pending transactions may settle for an amount this fraction different
+  pendingAmountTolerance: number
+}
+
+// Limits which cached Akahu transactions are imported
+export interface ImportRange {
+  accountIds?: string[]
+  start?: Date
+  end?: Date
+}
+
+// How to treat Firefly transactions whose Akahu transaction has been removed
+export enum DeletionPolicy {
+  Delete = 'delete',
+  Flag = 'flag',
+  Ignore = 'ignore'
+}
+
+// Merge the two transactions making up a transfer between our accounts
+const TRANSFER_POLICY: MergePolicy.Strategies = { ...MergePolicy.DEFAULT, description: MergePolicy.Strategy.Both }
+
+// Tag added to Firefly transactions flagged by DeletionPolicy.Flag
+const DELETED_TAG = 'Removed from Akahu'
+
 type IncompleteTransaction = Omit<Transactions.Transaction, 'id'>
 
-function findAccount (accounts: Accounts, transaction: AkahuTransaction): Accounts.Account {
+// Create an account with the given name if there isn't one already
+function getOrCreateAccount (accounts: Accounts, name: string): Accounts.Account {
+  return accounts.getByName(name) ?? accounts.create({
+    akahuId: undefined,
+    name,
+    bankNumbers: new Set(),
+    alternateNames: new Map([[Accounts.normalizeName(name), name]])
+  })
+}
+
+// Get the asset account used for cash, creating it if needed
+function getOrCreateCashAccount (accounts: Accounts, name: string): Accounts.Account {
+  const account = getOrCreateAccount(accounts, name)
+  if (account.source === undefined && account.destination === undefined) {
+    account.source = { type: Accounts.Type.Asset }
+    account.destination = { type: Accounts.Type.Asset }
+    accounts.save(account)
+  }
+
+  if (account.source?.type !== Accounts.Type.Asset) throw Error(`Cash account ${name} is not an asset account`)
+  return account
+}
+
+// How the counterparty account of a transaction was found
+export enum AccountMatch {
+  Review = 'review',
+  Rule = 'rule',
+  Type = 'type',
+  Merchant = 'merchant',
+  BankNumber = 'bank number',
+  Fuzzy = 'fuzzy'
+}
+
+function findAccount (
+  accounts: Accounts,
+  options: ImportOptions,
+  reviewQueue: ReviewQueue,
+  transaction: AkahuTransaction | PendingTransaction
+): [Accounts.Account | undefined, AccountMatch] {
   let account: Accounts.Account | undefined
 
-  // Interest is a special case - match any account that contains the word interest
-  if (transaction.description.toLowerCase().includes('interest')) {
-    account ??= accounts.getByName('Interest')
+  // Use the account chosen during review
+  // Remember the description so future transactions match the account
+  const resolution = '_id' in transaction ? reviewQueue.getResolution(transaction._id) : undefined
+  if (resolution !== undefined) {
+    if (accounts.getByName(resolution) === undefined) console.log(`Creating account ${resolution} chosen for ${transaction.description} during review`)
+    account = getOrCreateAccount(accounts, resolution)
+    if (accounts.getByName(transaction.description) === undefined) {
+      account.alternateNames.set(Accounts.normalizeName(transaction.description), transaction.description)
+      accounts.save(account)
+    }
+    return [account, AccountMatch.Review]
+  }
+
+  // Match account using the user-defined rules, creating the account if needed
+  const counterparty = options.rules.find(transaction)
+  if (counterparty !== undefined) {
+    return [getOrCreateAccount(accounts, counterparty), AccountMatch.Rule]
+  }
+
+  // Match account using the transaction type
+  if (transaction.type === 'ATM') {
+    return [getOrCreateCashAccount(accounts, options.cashAccount), AccountMatch.Type]
+  } else if (transaction.type === 'FEE') {
+    return [getOrCreateAccount(accounts, options.feesAccount), AccountMatch.Type]
+  } else if (transaction.type === 'INTEREST') {
+    return [getOrCreateAccount(accounts, options.interestAccount), AccountMatch.Type]
   }
 
   // Match account using the Akahu merchant ID
   if ('merchant' in transaction) {
-    account ??= accounts.getByAkahuId(transaction.merchant._id)
+    account = accounts.getByAkahuId(transaction.merchant._id)
+    if (account !== undefined) return [account, AccountMatch.Merchant]
   }
 
   // Match account using the bank account number
   if ('meta' in transaction) {
-    account ??= accounts.getByBankNumber(transaction.meta.other_account ?? '')
+    account = accounts.getByBankNumber(transaction.meta.other_account ?? '')
+    if (account !== undefined) return [account, AccountMatch.BankNumber]
   }
 
   // If all else fails match account using fuzzy name matching
   // Match the description with and without the reference - pick the best result
-  if (account === undefined) {
-    let name = transaction.description
-    let match = accounts.getByNameFuzzy(name)
-    if ('meta' in transaction) {
-      name = name.replace(transaction.meta.reference ?? '', '')
-      const newMatch = accounts.getByNameFuzzy(name)
-      if (newMatch[1] > match[1]) match = newMatch
+  let candidates = accounts.getByNameFuzzyCandidates(transaction.description, 5)
+  if ('meta' in transaction) {
+    const newCandidates = accounts.getByNameFuzzyCandidates(transaction.description.replace(transaction.meta.reference ?? '', ''), 5)
+    if ((newCandidates[0]?.[1] ?? 0) > (candidates[0]?.[1] ?? 0)) candidates = newCandidates
+  }
+
+  // Hold back poor matches (and names matching nothing at all) for review, pending transactions are reviewed once they settle
+  const [match] = candidates
+  if (match === undefined || match[1] === 0 || match[1] < options.minRating) {
+    if ('_id' in transaction) {
+      reviewQueue.add(transaction._id, transaction.description, candidates.map(([candidate, rating]) => ({ name: candidate.name, rating })))
     }
-    account ??= match[0]
+    return [undefined, AccountMatch.Fuzzy]
   }
 
-  return account
+  return [match[0], AccountMatch.Fuzzy]
 }
 
-function transformTransaction (accounts: Accounts, transaction: AkahuTransaction): IncompleteTransaction {
-  // TODO:
-  // transaction.meta.reference
-  // transaction.meta.particulars
-  // transaction.meta.code
-  // transaction.type
+// Follow counterparty changes made to the transaction in Firefly
+// Fuzzy matches learn from the change so future transactions match the corrected account
+function applyCorrection (
+  accounts: Accounts,
+  existing: Transactions,
+  chosenAccounts: ChosenAccounts,
+  transaction: AkahuTransaction,
+  found: Accounts.Account,
+  match: AccountMatch
+): Accounts.Account {
+  // Remember the account used, and whether it came from Firefly, so it isn't mistaken for a correction later
+  const chosen = chosenAccounts.get(transaction._id)
+  const choose = (account: Accounts.Account, corrected: boolean): Accounts.Account => {
+    chosenAccounts.set(transaction._id, account.name, corrected)
+    return account
+  }
+
+  const fireflyTransaction = existing.getByAkahuId(transaction._id)
+  if (fireflyTransaction === undefined) return choose(found, false)
+
+  const correctedId = transaction.amount < 0 ? fireflyTransaction.destinationId : fireflyTransaction.sourceId
+  if (correctedId === found.id) return choose(found, false)
+
+  // Transfers between our accounts are paired separately
+  const corrected = accounts.get(correctedId)
+  if (corrected === undefined || corrected.akahuId?.startsWith('acc_') === true || found.akahuId?.startsWith('acc_') === true) return choose(found, false)
+
+  // Firefly still has the account we last used
+  // Corrections that were followed are kept, our own earlier choices are replaced by the current match
+  const chosenAccount = chosen === undefined ? undefined : accounts.getByName(chosen.account)
+  if (chosen !== undefined && chosenAccount?.id === correctedId) return chosen.corrected ? corrected : choose(found, false)
+
+  // Transactions exported before choices were recorded can't be told apart from corrections, so they are followed but not learnt from
+  if (chosen === undefined) {
+    console.log(`Transaction ${transaction._id} is ${corrected.name} in Firefly, but ${match} matches ${found.name}`)
+    return choose(corrected, true)
+  }
+
+  if (match === AccountMatch.Fuzzy || match === AccountMatch.BankNumber) {
+    // Move the description (and merchant name) over to the corrected account
+    const names = [transaction.description]
+    if ('merchant' in transaction) names.push(transaction.merchant.name)
 
+    names.forEach(name => {
+      const normName = Accounts.normalizeName(name)
+      const current = accounts.getByName(name)
+      if (current?.id === corrected.id) return
+      if (current !== undefined) {
+        if (normName === Accounts.normalizeName(current.name)) return
+        current.alternateNames.delete(normName)
+        accounts.save(current)
+      }
+
+      const account = accounts.get(corrected.id) ?? corrected
+      account.alternateNames.set(normName, name)
+      accounts.save(account)
+    })
+    console.log(`Learnt ${names.join(', ')} is ${corrected.name} from Firefly, not ${found.name}`)
+  } else {
+    console.log(`Transaction ${transaction._id} was changed to ${corrected.name} in Firefly, but ${match} matches ${found.name}`)
+  }
+
+  return choose(accounts.get(corrected.id) ?? corrected, true)
+}
+
+function transformTransaction (
+  accounts: Accounts,
+  existing: Transactions,
+  chosenAccounts: ChosenAccounts,
+  options: ImportOptions,
+  reviewQueue: ReviewQueue,
+  transaction: AkahuTransaction | PendingTransaction,
+  report?: MatchReport
+): IncompleteTransaction | undefined {
   // Look up Akahu Account ID (acc_xxxxx)
   const account = accounts.getByAkahuId(transaction._account)
   if (account === undefined) throw Error(`Akahu account ${transaction._account} not set up`)
 
-  const foundAccount = findAccount(accounts, transaction)
+  const [matchedAccount, match] = findAccount(accounts, options, reviewQueue, transaction)
+  const foundAccount = '_id' in transaction && matchedAccount !== undefined
+    ? applyCorrection(accounts, existing, chosenAccounts, transaction, matchedAccount, match)
+    : matchedAccount
+
+  report?.addAccount({
+    akahuId: '_id' in transaction ? transaction._id : null,
+    description: transaction.description,
+    match,
+    account: matchedAccount?.name ?? null,
+    corrected: foundAccount?.id === matchedAccount?.id ? null : foundAccount?.name ?? null
+  })
+  if (foundAccount === undefined) return undefined
 
   // Update account from merchant
   if ('merchant' in transaction && foundAccount !== undefined && foundAccount.akahuId === undefined) {
@@ -89,48 +313,252 @@ function transformTransaction (accounts: Accounts, transaction: AkahuTransaction
 
   const newTrans: IncompleteTransaction = {
     fireflyId: undefined,
-    akahuIds: new Set([transaction._id]),
+    akahuIds: new Set('_id' in transaction ? [transaction._id] : []),
     sourceId: source.id,
     destinationId: destination.id,
     date: new Date(transaction.date),
     amount: Big(transaction.amount).abs(),
-    description: transaction.description
+    description: transaction.description,
+    tags: new Set([transaction.type])
   }
 
+  // Amounts are in the currency of our account
+  if (account.currencyCode !== undefined) newTrans.currencyCode = account.currencyCode
+
   if ('meta' in transaction) {
     // Add foreign currency details if any available
     const conversion: CurrencyConversion | undefined = (transaction.meta.conversion as unknown) as CurrencyConversion | undefined
-    if (conversion !== undefined) {
+    if (conversion !== undefined && conversion.currency !== account.currencyCode) {
       newTrans.foreignAmount = Big(conversion.amount).abs()
       newTrans.foreignCurrencyCode = conversion.currency
-      // TODO: Store fee/rate
+      newTrans.exchangeRate = conversion.rate.toString()
     }
 
+    // Keep reference, code and particulars
+    const { particulars, code, reference } = transaction.meta
+    if (particulars !== undefined && particulars.trim() !== '') newTrans.particulars = particulars.trim()
+    if (code !== undefined && code.trim() !== '') newTrans.code = code.trim()
+    if (reference !== undefined && reference.trim() !== '') newTrans.reference = reference.trim()
+
     // Strip reference, code and particulars from description
     newTrans.description = newTrans.description.replace(transaction.meta.reference ?? '', '').replace(transaction.meta.code ?? '', '').replace(transaction.meta.particulars ?? '', '').trim()
   }
 
-  // Use personal finance group as category
+  // Map Akahu category to Firefly category, budget and tags
   if ('category' in transaction) {
-    const categoryName = transaction.category.groups?.['personal_finance']?.name
-    if (categoryName !== undefined) newTrans.categoryName = categoryName
-    // TODO: Store other categories
+    const target = options.categories.find(transaction.category)
+    if (target.category !== undefined) newTrans.categoryName = target.category
+    if (target.budget !== undefined) newTrans.budgetName = target.budget
+    target.tags?.forEach(tag => newTrans.tags?.add(tag))
   }
 
   return newTrans
 }
 
-export async function importTransactions (accounts: Accounts): Promise<Transactions> {
-  const db = knex(production)
-  const transactionsTable = db<Row<AkahuTransaction>, any>('akahu_transactions')
-  const akahuTransactions = await transactionsTable.pluck('data')
+// Split any currency conversion fee out of a transaction into its own withdrawal
+// The fee is included in the amount Akahu reports for the transaction
+function splitConversionFee (
+  accounts: Accounts,
+  options: ImportOptions,
+  akahuTransaction: AkahuTransaction,
+  transaction: IncompleteTransaction
+): IncompleteTransaction | undefined {
+  if (!('meta' in akahuTransaction) || akahuTransaction.amount >= 0) return undefined
+
+  const conversion: CurrencyConversion | undefined = (akahuTransaction.meta.conversion as unknown) as CurrencyConversion | undefined
+  if (conversion?.fee === undefined || conversion.fee === 0) return undefined
+
+  const fee = Big(conversion.fee).abs()
+  transaction.amount = transaction.amount.minus(fee)
+
+  const feesAccount = getOrCreateAccount(accounts, options.feesAccount)
+  return {
+    fireflyId: undefined,
+    akahuIds: new Set([`${akahuTransaction._id}_fee`]),
+    sourceId: transaction.sourceId,
+    destinationId: feesAccount.id,
+    date: transaction.date,
+    amount: fee,
+    description: `Currency conversion fee - ${transaction.description}`
+  }
+}
+
+// Settled descriptions must be at least this similar to the pending description
+const PENDING_MIN_SIMILARITY = 0.5
+
+// Find the provisional entry that settled as a transaction
+// Pending transactions often settle with a different amount, and have no merchant, so they are matched
+// on our account, the amount within a tolerance, the date and a similar description rather than the counterparty
+function findProvisional (provisionals: Provisional[], options: ImportOptions, transaction: AkahuTransaction): Provisional | undefined {
+  const amount = Big(transaction.amount)
+  const date = new Date(transaction.date).getTime()
+  const window = options.pendingWindowDays * 24 * 60 * 60 * 1000
+
+  const matches = provisionals.filter(provisional =>
+    provisional.akahuAccountId === transaction._account &&
+    provisional.amount.lt(0) === amount.lt(0) &&
+    provisional.amount.minus(amount).abs().lte(amount.abs().times(options.pendingAmountTolerance)) &&
+    Math.abs(provisional.date.getTime() - date) <= window &&
+    compareTwoStrings(Accounts.normalizeName(provisional.description), Accounts.normalizeName(transaction.description)) >= PENDING_MIN_SIMILARITY
+  )
+
+  // Pick the closest amount and then the closest date
+  matches.sort((a, b) => {
+    const amountCompare = a.amount.minus(amount).abs().cmp(b.amount.minus(amount).abs())
+    if (amountCompare !== 0) return amountCompare
+    return Math.abs(a.date.getTime() - date) - Math.abs(b.date.getTime() - date)
+  })
+  return matches[0]
+}
+
+// Legs of a transfer between currencies have different amounts, and often no conversion details to match on
+// Pair them on their accounts and the closest date, giving the incoming leg the outgoing amount as its foreign amount
+// so the legs match when transfers are merged
+function hintCrossCurrencyTransfers (positive: Transactions, negative: Transactions, window: number): void {
+  const hinted = new Set<number>()
+
+  for (const leg of negative) {
+    if (leg.currencyCode === undefined || leg.foreignAmount !== undefined) continue
+
+    const candidates = [...positive].filter(other =>
+      !hinted.has(other.id) &&
+      other.currencyCode !== undefined &&
+      other.currencyCode !== leg.currencyCode &&
+      other.foreignAmount === undefined &&
+      other.sourceId === leg.sourceId &&
+      other.destinationId === leg.destinationId &&
+      Math.abs(other.date.getTime() - leg.date.getTime()) <= window
+    )
+    candidates.sort((a, b) => Math.abs(a.date.getTime() - leg.date.getTime()) - Math.abs(b.date.getTime() - leg.date.getTime()))
+
+    const [match] = candidates
+    if (match === undefined) continue
+    hinted.add(match.id)
+    match.foreignAmount = leg.amount
+    match.foreignCurrencyCode = leg.currencyCode
+    positive.save(match)
+  }
+}
+
+// Set up accounts for any Akahu accounts that don't have one yet
+// Existing accounts with the same bank number or name are linked instead
+export async function importAccounts (db: Knex, accounts: Accounts): Promise<void> {
+  const akahuAccounts: AkahuAccount[] = await db<Row<AkahuAccount>, any>('akahu_accounts').pluck('data')
+
+  akahuAccounts.forEach(akahuAccount => {
+    if (accounts.getByAkahuId(akahuAccount._id) !== undefined) return
+
+    const type = AccountTypeMapping[akahuAccount.type]
+    if (type === undefined) return
+
+    const name = akahuAccount.name.trim()
+    const formatted = akahuAccount.formatted_account ?? ''
+    const bankNumber = /^\d+-\d+-\d+-\d+$/.test(formatted) ? Accounts.formatBankNumber(formatted) : undefined
+
+    // Link an existing account if there is one
+    const existing = accounts.getByBankNumber(bankNumber ?? '') ?? accounts.getByName(name)
+    if (existing !== undefined) {
+      if (existing.akahuId !== undefined || existing.source?.type !== type) {
+        console.error(`Akahu account ${akahuAccount._id} conflicts with account ${Util.stringify(existing)}`)
+        return
+      }
+
+      console.log(`Linking Akahu account ${akahuAccount._id} to ${existing.name}`)
+      existing.akahuId = akahuAccount._id
+      existing.currencyCode ??= akahuAccount.balance?.currency
+      if (bankNumber !== undefined) existing.bankNumbers.add(bankNumber)
+      accounts.save(existing)
+      return
+    }
+
+    console.log(`Setting up Akahu account ${akahuAccount._id} as ${name}`)
+    accounts.create({
+      source: { type },
+      destination: { type },
+      akahuId: akahuAccount._id,
+      name,
+      currencyCode: akahuAccount.balance?.currency,
+      bankNumbers: new Set(bankNumber === undefined ? [] : [bankNumber]),
+      alternateNames: new Map([[Accounts.normalizeName(name), name]])
+    })
+  })
+}
+
+// Get the current balance of each Akahu account
+export async function importBalances (db: Knex): Promise<Map<string, Big>> {
+  const akahuAccounts: AkahuAccount[] = await db<Row<AkahuAccount>, any>('akahu_accounts').pluck('data')
+
+  const balances: Map<string, Big> = new Map()
+  akahuAccounts.forEach(akahuAccount => {
+    if (akahuAccount.balance !== undefined) balances.set(akahuAccount._id, Big(akahuAccount.balance.current))
+  })
+  return balances
+}
+
+function inRange (range: ImportRange, accountId: string, date: Date): boolean {
+  if (range.accountIds !== undefined && !range.accountIds.includes(accountId)) return false
+  if (range.start !== undefined && date < range.start) return false
+  if (range.end !== undefined && date > range.end) return false
+  return true
+}
+
+export async function importTransactions (
+  db: Knex,
+  accounts: Accounts,
+  existing: Transactions,
+  chosenAccounts: ChosenAccounts,
+  options: ImportOptions,
+  range: ImportRange = {},
+  report?: MatchReport
+): Promise<Transactions> {
+  let query = db<Row<AkahuTransaction>, any>('akahu_transactions').whereNull('deleted_at')
+  if (range.accountIds !== undefined) query = query.whereIn('_account', range.accountIds)
+  if (range.start !== undefined) query = query.where('date', '>=', range.start)
+  if (range.end !== undefined) query = query.where('date', '<=', range.end)
+  const akahuTransactions = await query.pluck('data')
+  const reviewQueue = await ReviewQueue.load(db)
+
+  // Provisional entries in Firefly that are no longer pending in Akahu, which settled transactions replace
+  // Entries that are still pending can't have settled
+  const pendingTransactions: Array<Row<PendingTransaction>> = await db<Row<PendingTransaction>, any>('akahu_pending_transactions').select('id', 'data')
+  const pendingIds = new Set(pendingTransactions.map(({ id }) => id))
+  const fireflyProvisionals: Map<string, Transactions.Transaction> = new Map()
+  const provisionals: Map<string, Provisional> = new Map()
+  for (const transaction of existing) {
+    if (transaction.pendingId === undefined || transaction.akahuIds.size > 0 || pendingIds.has(transaction.pendingId)) continue
+    fireflyProvisionals.set(transaction.pendingId, transaction)
+
+    const source = accounts.get(transaction.sourceId)
+    const destination = accounts.get(transaction.destinationId)
+    const outgoing = source?.akahuId?.startsWith('acc_') === true
+    const akahuAccountId = outgoing ? source?.akahuId : destination?.akahuId
+    if (akahuAccountId === undefined) continue
+    provisionals.set(transaction.pendingId, {
+      pendingId: transaction.pendingId,
+      akahuAccountId,
+      amount: outgoing ? transaction.amount.neg() : transaction.amount,
+      date: transaction.date,
+      description: transaction.description
+    })
+  }
+
+  // Transactions of Akahu accounts that aren't set up (KiwiSaver, investments etc.) are skipped
+  const skippedAccounts = new Set<string>()
+  const isSetUp = (akahuAccountId: string): boolean => {
+    if (accounts.getByAkahuId(akahuAccountId) !== undefined) return true
+    if (!skippedAccounts.has(akahuAccountId)) console.error(`Skipping transactions from Akahu account ${akahuAccountId}, which is not set up`)
+    skippedAccounts.add(akahuAccountId)
+    return false
+  }
 
   const positive = new Transactions()
   const negative = new Transactions()
   const normalTransactions: IncompleteTransaction[] = []
 
   akahuTransactions.forEach(akahuTransaction => {
-    const transaction = transformTransaction(accounts, akahuTransaction)
+    if (!isSetUp(akahuTransaction._account)) return
+    const transaction = transformTransaction(accounts, existing, chosenAccounts, options, reviewQueue, akahuTransaction, report)
+    if (transaction === undefined) return
 
     // Detect if this is an internal transfer of funds
     const source = accounts.get(transaction.sourceId)
@@ -143,25 +571,150 @@ export async function importTransactions (accounts: Accounts): Promise<Transacti
       }
     } else {
       normalTransactions.push(transaction)
+
+      // Replace the provisional entry for a newly settled transaction
+      if (existing.getByAkahuId(akahuTransaction._id) === undefined) {
+        const provisional = findProvisional([...provisionals.values()], options, akahuTransaction)
+        if (provisional !== undefined) {
+          provisionals.delete(provisional.pendingId)
+
+          // Claiming the Firefly entry makes it match the settled transaction when merging
+          const fireflyTransaction = fireflyProvisionals.get(provisional.pendingId)
+          if (fireflyTransaction !== undefined) {
+            console.log(`Pending transaction ${provisional.pendingId} settled as ${akahuTransaction._id}`)
+            fireflyTransaction.akahuIds.add(akahuTransaction._id)
+            existing.save(fireflyTransaction)
+          }
+        }
+      }
+
+      const fee = splitConversionFee(accounts, options, akahuTransaction, transaction)
+      if (fee !== undefined) normalTransactions.push(fee)
     }
   })
 
   // Transfers between our accounts will result in two transactions,
   // one from the source account and one from the destination account.
   // Find these pairs and merge the two transactions together.
-  const remainders = positive.merge(negative, _ => true, (a: Transactions.Transaction, b: Transactions.Transaction) => {
-    // Combine the two descriptions
-    a.description = `${a.description} - ${b.description}`
-  })
+  const window = options.transferWindowDays * 24 * 60 * 60 * 1000
+  hintCrossCurrencyTransfers(positive, negative, window)
 
-  // Error if there are any unmatched transactions
+  // The descriptions of the two transactions are combined
+  const remainders = positive.merge(negative, (a, b) => Math.abs(a.date.getTime() - b.date.getTime()) <= window, (a, b) => {
+    // Transfers between currencies are in the currency of the source account
+    // and the amount received is the foreign amount
+    if (a.currencyCode !== undefined && b.currencyCode !== undefined && a.currencyCode !== b.currencyCode) {
+      a.foreignAmount = a.amount
+      a.foreignCurrencyCode = a.currencyCode
+      a.amount = b.amount
+      a.currencyCode = b.currencyCode
+    }
+  }, report, _ => TRANSFER_POLICY)
+
+  // Hold back unmatched transactions as the other leg may not have been posted yet
+  // Once they time out, export them against the placeholder account instead
   const unmatched = [...remainders.left.values(), ...remainders.right.values()]
-  if (unmatched.length !== 0) {
-    throw Error(`Could not find matching transactions for ${Util.stringify(unmatched)}`)
+  const unpaired: UnpairedTransfer[] = await db<UnpairedTransfer>('akahu_unpaired_transfers').select()
+  const firstSeen = new Map(unpaired.map(row => [row.id, new Date(row.first_seen_at)]))
+  const timeout = options.transferTimeoutDays * 24 * 60 * 60 * 1000
+  const now = new Date()
+
+  const unmatchedIds = new Set<string>()
+  const pairedInFirefly: string[] = []
+  unmatched.forEach(transaction => {
+    const [akahuId] = transaction.akahuIds
+    if (akahuId === undefined) return
+
+    // The other leg may be outside the range imported, when Firefly already has the pair
+    if ((existing.getByAkahuId(akahuId)?.akahuIds.size ?? 0) > 1) {
+      pairedInFirefly.push(akahuId)
+      positive.delete(transaction.id)
+      return
+    }
+    unmatchedIds.add(akahuId)
+
+    const seen = firstSeen.get(akahuId) ?? now
+    firstSeen.set(akahuId, seen)
+    positive.delete(transaction.id)
+
+    if (now.getTime() - seen.getTime() < timeout) {
+      console.log(`Holding back unpaired transfer ${Util.stringify(transaction)}`)
+      return
+    }
+
+    console.error(`Could not find matching transaction for ${Util.stringify(transaction)}, using ${options.transferPlaceholderAccount}`)
+    const placeholder = getOrCreateAccount(accounts, options.transferPlaceholderAccount)
+    const { id: _, ...rest } = transaction
+    normalTransactions.push(negative.get(transaction.id) === undefined
+      ? { ...rest, sourceId: placeholder.id }
+      : { ...rest, destinationId: placeholder.id })
+  })
+
+  // Remember when each unpaired leg was first seen, and forget legs that have been paired
+  const pairedIds = [...[...positive].flatMap(transaction => [...transaction.akahuIds]), ...pairedInFirefly].filter(id => firstSeen.has(id) && !unmatchedIds.has(id))
+  if (unmatchedIds.size > 0) {
+    await db<UnpairedTransfer>('akahu_unpaired_transfers')
+      .insert([...unmatchedIds].map(id => ({ id, first_seen_at: firstSeen.get(id) ?? now })))
+      .onConflict('id')
+      .ignore()
+  }
+  if (pairedIds.length > 0) {
+    await db<UnpairedTransfer>('akahu_unpaired_transfers').whereIn('id', pairedIds).delete()
   }
 
   // Add normal transactions to positive
   normalTransactions.forEach(transaction => positive.create(transaction))
 
+  // Add pending transactions as provisional entries
+  // Pending transfers between our accounts are left until they settle
+  pendingTransactions.forEach(({ id, data }) => {
+    if (!inRange(range, data._account, new Date(data.date)) || !isSetUp(data._account)) return
+
+    const transaction = transformTransaction(accounts, existing, chosenAccounts, options, reviewQueue, data, report)
+    if (transaction === undefined) return
+    transaction.pendingId = id
+
+    const source = accounts.get(transaction.sourceId)
+    const destination = accounts.get(transaction.destinationId)
+    if (source?.akahuId?.startsWith('acc_') === true && destination?.akahuId?.startsWith('acc_') === true) return
+
+    positive.create(transaction)
+  })
+
+  await reviewQueue.save(db)
+
   return positive
 }
+
+// Remove provisional entries whose pending transaction has gone from Akahu without settling, e.g. cancelled card holds
+// Entries that settled have an Akahu ID by the time this runs
+export async function removeStaleProvisionalTransactions (db: Knex, transactions: Transactions): Promise<void> {
+  const pendingIds = new Set<string>(await db<Row<PendingTransaction>, any>('akahu_pending_transactions').pluck('id'))
+
+  for (const transaction of transactions) {
+    if (transaction.pendingId === undefined || transaction.akahuIds.size > 0 || pendingIds.has(transaction.pendingId)) continue
+
+    console.log(`Removing provisional transaction ${transaction.fireflyId ?? transaction.id} no longer pending in Akahu (${transaction.pendingId})`)
+    transactions.delete(transaction.id)
+  }
+}
+
+// Apply the deletion policy to transactions whose Akahu transaction has been removed
+export async function removeDeletedTransactions (db: Knex, transactions: Transactions, policy: DeletionPolicy): Promise<void> {
+  if (policy === DeletionPolicy.Ignore) return
+
+  const deletedIds: string[] = await db<Row<AkahuTransaction>, any>('akahu_transactions').whereNotNull('deleted_at').pluck('id')
+  deletedIds.flatMap(id => [id, `${id}_fee`]).forEach(akahuId => {
+    const transaction = transactions.getByAkahuId(akahuId)
+    if (transaction === undefined) return
+
+    if (policy === DeletionPolicy.Delete) {
+      console.log(`Removing transaction ${transaction.fireflyId ?? transaction.id} deleted from Akahu (${akahuId})`)
+      transactions.delete(transaction.id)
+    } else if (transaction.tags?.has(DELETED_TAG) !== true) {
+      console.log(`Flagging transaction ${transaction.fireflyId ?? transaction.id} deleted from Akahu (${akahuId})`)
+      transaction.tags = new Set([...(transaction.tags ?? []), DELETED_TAG])
+      transactions.save(transaction)
+    }
+  })
+}
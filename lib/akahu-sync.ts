@@ -0,0 +1,207 @@
+import { createHash } from 'crypto'
+import type { Knex } from 'knex'
+import type { AkahuClient, Account, PendingTransaction, Transaction, TransactionQueryParams } from 'akahu'
+
+import { recordVersions } from './akahu-history'
+
+interface Row<T> {
+  id: string
+  data: T
+}
+
+interface TransactionRow extends Row<Transaction> {
+  _account: string
+  date: Date
+  amount: number
+  merchant_id: string | null
+  type: string
+  deleted_at: Date | null
+}
+
+interface SyncState {
+  id: string
+  synced_at: Date
+}
+
+// Get Akahu accounts and update the DB cache
+async function updateAkahuAccounts (
+  db: Knex,
+  akahu: AkahuClient,
+  userToken: string
+): Promise<Account[]> {
+  const accounts = await akahu.accounts.list(userToken)
+  const cacheAccounts = accounts.map(account => ({ id: account._id, data: account }))
+  await recordVersions(db, 'akahu_accounts', cacheAccounts, new Date())
+  await db<Row<Account>>('akahu_accounts').insert(cacheAccounts).onConflict('id').merge()
+  return accounts
+}
+
+// Get the time each Akahu account last had its transactions refreshed
+function getRefreshTimes (accounts: Account[]): Map<string, string | undefined> {
+  return new Map(accounts
+    .filter(account => account.attributes.includes('TRANSACTIONS'))
+    .map(account => [account._id, account.refreshed?.transactions]))
+}
+
+// Ask Akahu to refresh the user's connections then poll the accounts
+// until every account has been refreshed or the timeout is hit
+export async function refreshAkahuData (
+  db: Knex,
+  akahu: AkahuClient,
+  userToken: string,
+  timeoutSeconds: number,
+  intervalSeconds: number
+): Promise<void> {
+  // Akahu also refreshes by itself, so compare against the accounts as they are when the refresh is requested
+  const before = getRefreshTimes(await updateAkahuAccounts(db, akahu, userToken))
+  await akahu.accounts.refreshAll(userToken)
+
+  const deadline = Date.now() + timeoutSeconds * 1000
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000))
+    // Find accounts that haven't been refreshed since the request
+    const after = getRefreshTimes(await updateAkahuAccounts(db, akahu, userToken))
+    const waiting = [...after].filter(([id, refreshed]) => {
+      const previous = before.get(id)
+      if (refreshed === undefined) return true
+      return previous !== undefined && new Date(refreshed) <= new Date(previous)
+    })
+
+    if (waiting.length === 0) return
+    console.log(`Waiting for Akahu to refresh ${waiting.map(([id]) => id).join(', ')}`)
+  }
+
+  console.error(`Timed out waiting for Akahu to refresh after ${timeoutSeconds} seconds`)
+}
+
+// Build a cache row, copying the fields that are queried into their own columns
+function transactionRow (transaction: Transaction): TransactionRow {
+  return {
+    id: transaction._id,
+    data: transaction,
+    _account: transaction._account,
+    date: new Date(transaction.date),
+    amount: transaction.amount,
+    merchant_id: 'merchant' in transaction ? transaction.merchant._id : null,
+    type: transaction.type,
+    deleted_at: null
+  }
+}
+
+// Mark cached Akahu transactions as removed
+export async function markAkahuTransactionsDeleted (db: Knex, ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  await db<TransactionRow>('akahu_transactions')
+    .whereIn('id', ids)
+    .whereNull('deleted_at')
+    .update({ deleted_at: new Date() })
+}
+
+// Get Akahu transactions and update the DB cache
+// Each account is synced from its last synced date (less an overlap to catch
+// late postings) unless a full sync is requested. Accounts can be given an
+// earlier start date to ensure particular transactions are covered.
+async function updateAkahuTransactions (
+  db: Knex,
+  akahu: AkahuClient,
+  userToken: string,
+  accounts: Map<string, Date | undefined>,
+  overlapDays: number,
+  fullSync: boolean
+): Promise<void> {
+  for (const [accountId, since] of accounts) {
+    const syncedAt = new Date()
+    const query: TransactionQueryParams = { end: syncedAt.toISOString() }
+
+    // Start from the last sync of this account
+    const state = await db<SyncState>('akahu_sync_state').where('id', accountId).first()
+    if (state !== undefined && !fullSync) {
+      const start = new Date(state.synced_at)
+      start.setDate(start.getDate() - overlapDays)
+      if (since !== undefined && since < start) start.setTime(since.getTime())
+      query.start = start.toISOString()
+    }
+
+    console.log(`Syncing Akahu account ${accountId} from ${query.start ?? 'the beginning'}`)
+
+    const seenIds: Set<string> = new Set()
+    const windowStart = query.start
+
+    do {
+      const transactions = await akahu.accounts.listTransactions(userToken, accountId, query)
+      const cacheTransactions = transactions.items.map(transactionRow)
+      if (cacheTransactions.length > 0) {
+        await recordVersions(db, 'akahu_transactions', cacheTransactions, syncedAt)
+        await db<TransactionRow>('akahu_transactions').insert(cacheTransactions).onConflict('id').merge()
+      }
+      cacheTransactions.forEach(transaction => seenIds.add(transaction.id))
+      query.cursor = transactions.cursor.next
+    } while (query.cursor !== null)
+
+    // Anything cached within the synced window that Akahu no longer returns has been removed
+    const cachedIds: string[] = await db<TransactionRow>('akahu_transactions')
+      .whereNull('deleted_at')
+      .where('_account', accountId)
+      .where('date', '>', windowStart ?? new Date(0).toISOString())
+      .where('date', '<', syncedAt)
+      .pluck('id')
+    const removedIds = cachedIds.filter(id => !seenIds.has(id))
+    if (removedIds.length > 0) {
+      console.log(`Akahu removed transactions ${removedIds.join(', ')}`)
+      await markAkahuTransactionsDeleted(db, removedIds)
+    }
+
+    // Record the end of the synced window
+    await db<SyncState>('akahu_sync_state').insert({ id: accountId, synced_at: syncedAt }).onConflict('id').merge()
+  }
+}
+
+// Get Akahu pending transactions and replace the DB cache
+// Pending transactions have no Akahu ID so one is derived from their details
+async function updateAkahuPendingTransactions (
+  db: Knex,
+  akahu: AkahuClient,
+  userToken: string
+): Promise<void> {
+  const transactions = await akahu.transactions.listPending(userToken)
+
+  // Identical pending transactions are distinguished by their position
+  const seen: Map<string, number> = new Map()
+  const cacheTransactions = transactions.map(transaction => {
+    const key = [transaction._account, transaction.date, transaction.amount, transaction.description].join('|')
+    const count = seen.get(key) ?? 0
+    seen.set(key, count + 1)
+    const hash = createHash('sha1').update(`${key}|${count}`).digest('hex').slice(0, 24)
+    return { id: `pending_${hash}`, data: transaction }
+  })
+
+  await db.transaction(async trx => {
+    await trx<Row<PendingTransaction>>('akahu_pending_transactions').delete()
+    if (cacheTransactions.length > 0) {
+      await trx<Row<PendingTransaction>>('akahu_pending_transactions').insert(cacheTransactions)
+    }
+  })
+}
+
+// Fetch the latest Akahu data into the DB cache
+// Only the given accounts have their transactions synced, defaulting to all accounts
+export async function syncAkahu (
+  db: Knex,
+  akahu: AkahuClient,
+  userToken: string,
+  targets: Map<string, Date | undefined> | undefined,
+  overlapDays: number,
+  fullSync: boolean
+): Promise<void> {
+  const accounts = await updateAkahuAccounts(db, akahu, userToken)
+  const accountIds = accounts
+    .filter(account => account.attributes.includes('TRANSACTIONS'))
+    .map(account => account._id)
+
+  const syncAccounts = new Map(accountIds
+    .filter(id => targets === undefined || targets.has(id))
+    .map(id => [id, targets?.get(id)]))
+
+  await updateAkahuTransactions(db, akahu, userToken, syncAccounts, overlapDays, fullSync)
+  await updateAkahuPendingTransactions(db, akahu, userToken)
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs'
+import type { EnrichedTransaction } from 'akahu'
+
+type AkahuCategory = EnrichedTransaction['category']
+
+// Akahu category group used when no mappings are configured
+const DEFAULT_GROUP = 'personal_finance'
+
+export class Categories {
+  private readonly mappings: Categories.Mapping[]
+  private readonly fallback: Categories.Target | undefined
+
+  constructor (mappings: Categories.Mapping[], fallback?: Categories.Target) {
+    this.mappings = mappings
+    this.fallback = fallback
+  }
+
+  // Load category mappings from a JSON file
+  // Without a file the Akahu personal finance group is used as the category
+  public static load (path: string | undefined): Categories {
+    if (path === undefined) return new Categories([])
+
+    const file: Categories.File = JSON.parse(readFileSync(path, 'utf8'))
+    if (!Array.isArray(file.mappings)) throw Error(`Categories file ${path} must contain an array of mappings`)
+
+    file.mappings.forEach((mapping, ix) => {
+      if (mapping.code === undefined && mapping.group === undefined) throw Error(`Mapping ${ix} in ${path} has no code or group`)
+      if (mapping.tags !== undefined && !Array.isArray(mapping.tags)) throw Error(`Mapping ${ix} in ${path} has invalid tags`)
+    })
+
+    return new Categories(file.mappings, file.default)
+  }
+
+  private static test (mapping: Categories.Mapping, category: AkahuCategory): boolean {
+    if (mapping.code !== undefined && mapping.code !== category._id && mapping.code !== category.name) return false
+    if (mapping.group !== undefined) {
+      const groups: AkahuCategory['groups'] = category.groups ?? {}
+      if (!Object.values(groups).some(group => mapping.group === group._id || mapping.group === group.name)) return false
+    }
+    return true
+  }
+
+  // Find the Firefly category, budget and tags for an Akahu category
+  // Mappings on a category code take priority over mappings on a group
+  public find (category: AkahuCategory): Categories.Target {
+    const mapping = this.mappings.find(mapping => mapping.code !== undefined && Categories.test(mapping, category)) ??
+      this.mappings.find(mapping => Categories.test(mapping, category))
+    if (mapping !== undefined) return mapping
+    if (this.fallback !== undefined) return this.fallback
+
+    const name = category.groups?.[DEFAULT_GROUP]?.name
+    return name === undefined ? {} : { category: name }
+  }
+}
+
+export namespace Categories {
+  // Firefly details given to transactions in an Akahu category
+  export interface Target {
+    category?: string
+    budget?: string
+    tags?: string[]
+  }
+
+  // Matches an Akahu category by code (category ID or name) and/or group (group ID or name)
+  export interface Mapping extends Target {
+    code?: string
+    group?: string
+  }
+
+  export interface File {
+    mappings: Mapping[]
+    // Used for categories that no mapping matches
+    default?: Target
+  }
+}
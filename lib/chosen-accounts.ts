@@ -0,0 +1,57 @@
+import type { Knex } from 'knex'
+
+interface Row {
+  id: string
+  account: string
+  corrected: boolean
+  chosen_at: Date
+}
+
+// The counterparty account last used for each Akahu transaction
+// and whether it was a correction made in Firefly rather than our own match
+// A different account in Firefly means it was corrected by hand since
+export class ChosenAccounts {
+  private readonly accounts: Map<string, ChosenAccounts.Choice> = new Map()
+  private readonly changed: Set<string> = new Set()
+
+  public static async load (db: Knex): Promise<ChosenAccounts> {
+    const chosen = new ChosenAccounts()
+    const rows = await db<Row>('akahu_chosen_accounts').select('id', 'account', 'corrected')
+    rows.forEach(row => chosen.accounts.set(row.id, { account: row.account, corrected: row.corrected }))
+    return chosen
+  }
+
+  // Get the account used for a transaction
+  public get (akahuId: string): ChosenAccounts.Choice | undefined {
+    return this.accounts.get(akahuId)
+  }
+
+  public set (akahuId: string, account: string, corrected: boolean): void {
+    const existing = this.accounts.get(akahuId)
+    if (existing?.account === account && existing.corrected === corrected) return
+
+    this.accounts.set(akahuId, { account, corrected })
+    this.changed.add(akahuId)
+  }
+
+  // Store changed choices
+  public async save (db: Knex): Promise<void> {
+    const chosenAt = new Date()
+    const rows = [...this.changed].map(id => ({ id, ...this.accounts.get(id), chosen_at: chosenAt }))
+
+    // Insert in chunks to stay within the query parameter limit
+    for (let ix = 0; ix < rows.length; ix += 1000) {
+      await db('akahu_chosen_accounts').insert(rows.slice(ix, ix + 1000)).onConflict('id').merge()
+    }
+
+    this.changed.clear()
+  }
+}
+
+export namespace ChosenAccounts {
+  export interface Choice {
+    account: string
+    // Set when the account was taken from Firefly
+    corrected: boolean
+  }
+}
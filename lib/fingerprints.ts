@@ -0,0 +1,73 @@
+import type { Knex } from 'knex'
+
+// What to do with Firefly transactions that have been edited since they were last written
+export enum ManualEditPolicy {
+  // Leave the transaction as it is
+  Skip = 'skip',
+  // Leave the transaction as it is and list the edited fields
+  Report = 'report',
+  // Keep the edited fields and update the rest
+  Merge = 'merge',
+  // Replace the edits
+  Overwrite = 'overwrite'
+}
+
+// The last payload written to each Firefly transaction group
+// A transaction whose current state doesn't match has been edited by hand
+export class Fingerprints {
+  private readonly payloads: Map<number, string> = new Map()
+  private readonly changed: Set<number> = new Set()
+  private readonly removed: Set<number> = new Set()
+
+  public static async load (db: Knex): Promise<Fingerprints> {
+    const fingerprints = new Fingerprints()
+    const rows = await db<Fingerprints.Row>('firefly_fingerprints').select('id', 'data')
+    rows.forEach(row => fingerprints.payloads.set(row.id, JSON.stringify(row.data)))
+    return fingerprints
+  }
+
+  // Get the payload last written to a transaction as JSON
+  public get (fireflyId: number): string | undefined {
+    return this.payloads.get(fireflyId)
+  }
+
+  public set (fireflyId: number, payload: unknown): void {
+    const json = JSON.stringify(payload)
+    if (this.payloads.get(fireflyId) === json) return
+
+    this.payloads.set(fireflyId, json)
+    this.changed.add(fireflyId)
+    this.removed.delete(fireflyId)
+  }
+
+  public delete (fireflyId: number): void {
+    this.payloads.delete(fireflyId)
+    this.changed.delete(fireflyId)
+    this.removed.add(fireflyId)
+  }
+
+  // Store changed fingerprints
+  public async save (db: Knex): Promise<void> {
+    const writtenAt = new Date()
+    const rows = [...this.changed].map(id => ({ id, data: this.payloads.get(id), written_at: writtenAt }))
+
+    // Insert in chunks to stay within the query parameter limit
+    for (let ix = 0; ix < rows.length; ix += 1000) {
+      await db('firefly_fingerprints').insert(rows.slice(ix, ix + 1000)).onConflict('id').merge()
+    }
+    if (this.removed.size > 0) {
+      await db('firefly_fingerprints').whereIn('id', [...this.removed]).delete()
+    }
+
+    this.changed.clear()
+    this.removed.clear()
+  }
+}
+
+export namespace Fingerprints {
+  export interface Row {
+    id: number
+    data: unknown
+    written_at: Date
+  }
+}
@@ -1,9 +1,11 @@
 import { Configuration, AccountsApiFactory, TransactionsApiFactory } from 'firefly-iii-sdk-typescript'
 import { TransactionTypeProperty } from 'firefly-iii-sdk-typescript'
-import knex from 'knex'
+import type { Knex } from 'knex'
 import Big from 'big.js'
-import { firefly } from '../knexfile'
 import { Accounts } from './accounts'
+import { ManualEditPolicy } from './fingerprints'
+import type { Fingerprints } from './fingerprints'
+import type { SyncJournal } from './sync-journal'
 import { Transactions } from './transactions'
 import { Util } from './util'
 
@@ -30,30 +32,47 @@ interface Account {
   iban: string | null
   account_number: string | null
   external_id: string | null
+  currency_code: string | null
   notes: string | null
 }
 
 interface Transaction {
   id: number
+  group_id: number
+  group_title: string | null
   type: string
   description: string
   date: Date
   amount: string | number
   source_id: number
   destination_id: number
+  currency_code: string | null
   foreign_amount: string | number | null
   foreign_currency_code: string | null
   external_id: string | null
   category_name: string | null
+  budget_name: string | null
+  tags: string[]
+  notes: string | null
 }
 
 interface UpdateAccount {
   name: string
   account_number: string
+  currency_code?: string
   notes?: string
 }
 
+// Additional fields Firefly requires when creating an account
+interface CreateAccount extends UpdateAccount {
+  type: Accounts.Type
+  account_role?: string
+  liability_type?: string
+  liability_direction?: string
+}
+
 interface UpdateTransaction {
+  transaction_journal_id?: string
   type: TransactionTypeProperty
   external_id: string
   description: string
@@ -61,9 +80,13 @@ interface UpdateTransaction {
   amount: string
   source_id: string
   destination_id: string
+  currency_code?: string
   foreign_amount?: string
   foreign_currency_code?: string
   category_name?: string
+  budget_name?: string
+  tags?: string[]
+  notes?: string
 }
 
 export class Firefly {
@@ -78,9 +101,12 @@ export class Firefly {
   // Firefly API clients
   private readonly accountsAPI
   private readonly transactionAPI
+
+  // Firefly database connection
+  private readonly db: Knex
   
   // Initialise class
-  constructor (apiKey: string, basePath: string) {
+  constructor (apiKey: string, basePath: string, db: Knex) {
     const apiConfig = new Configuration({
       apiKey,
       basePath,
@@ -90,6 +116,7 @@ export class Firefly {
     })
     this.accountsAPI = AccountsApiFactory(apiConfig)
     this.transactionAPI = TransactionsApiFactory(apiConfig)
+    this.db = db
   }
   
   public async import () {
@@ -124,7 +151,8 @@ export class Firefly {
     [AccountType.Revenue]: Accounts.Type.Revenue,
     [AccountType.Loan]: Accounts.Type.Liability,
     [AccountType.Debt]: Accounts.Type.Liability,
-    [AccountType.Mortgage]: Accounts.Type.Liability
+    [AccountType.Mortgage]: Accounts.Type.Liability,
+    [AccountType.Reconciliation]: Accounts.Type.Reconciliation
   }
 
   private static readonly transactionMapping = {
@@ -132,35 +160,53 @@ export class Firefly {
       [Accounts.Type.Asset]: TransactionTypeProperty.Transfer,
       [Accounts.Type.Liability]: TransactionTypeProperty.Withdrawal,
       [Accounts.Type.Expense]: TransactionTypeProperty.Withdrawal,
-      [Accounts.Type.Revenue]: undefined
+      [Accounts.Type.Revenue]: undefined,
+      [Accounts.Type.Reconciliation]: TransactionTypeProperty.Reconciliation
     },
     [Accounts.Type.Liability]: {
       [Accounts.Type.Asset]: TransactionTypeProperty.Deposit,
       [Accounts.Type.Liability]: TransactionTypeProperty.Transfer,
       [Accounts.Type.Expense]: TransactionTypeProperty.Withdrawal,
-      [Accounts.Type.Revenue]: undefined
+      [Accounts.Type.Revenue]: undefined,
+      [Accounts.Type.Reconciliation]: TransactionTypeProperty.Reconciliation
     },
     [Accounts.Type.Expense]: {
       [Accounts.Type.Asset]: undefined,
       [Accounts.Type.Liability]: undefined,
       [Accounts.Type.Expense]: undefined,
-      [Accounts.Type.Revenue]: undefined
+      [Accounts.Type.Revenue]: undefined,
+      [Accounts.Type.Reconciliation]: undefined
     },
     [Accounts.Type.Revenue]: {
       [Accounts.Type.Asset]: TransactionTypeProperty.Deposit,
       [Accounts.Type.Liability]: TransactionTypeProperty.Deposit,
       [Accounts.Type.Expense]: undefined,
-      [Accounts.Type.Revenue]: undefined
+      [Accounts.Type.Revenue]: undefined,
+      [Accounts.Type.Reconciliation]: undefined
+    },
+    [Accounts.Type.Reconciliation]: {
+      [Accounts.Type.Asset]: TransactionTypeProperty.Reconciliation,
+      [Accounts.Type.Liability]: TransactionTypeProperty.Reconciliation,
+      [Accounts.Type.Expense]: undefined,
+      [Accounts.Type.Revenue]: undefined,
+      [Accounts.Type.Reconciliation]: undefined
     }
   }
 
   private static readonly ALT_NAMES_REGEX = /\*\*Alternate names\*\*(\n-\s*`[^`]+`)+/
   private static readonly AKAHU_ID_REGEX = /\*\*Akahu ID\*\*\s*`([^`]+)`/
 
+  // Bank payment and currency conversion details are stored in transaction notes
+  private static readonly PAYMENT_DETAILS: Array<['particulars' | 'code' | 'reference' | 'exchangeRate', RegExp, string]> = [
+    ['particulars', /\*\*Particulars\*\*\s*`([^`]*)`/, 'Particulars'],
+    ['code', /\*\*Code\*\*\s*`([^`]*)`/, 'Code'],
+    ['reference', /\*\*Reference\*\*\s*`([^`]*)`/, 'Reference'],
+    ['exchangeRate', /\*\*Exchange rate\*\*\s*`([^`]*)`/, 'Exchange rate']
+  ]
+
   // Fetch all accounts
   private async getAccounts (): Promise<Account[]> {
-    const db = knex(firefly)
-    const accounts = await db('accounts AS acc')
+    const accounts = await this.db('accounts AS acc')
       .select(
         'acc.id',
         'at.type',
@@ -168,6 +214,12 @@ export class Firefly {
         'acc.iban',
         'num.data AS account_number',
         'ext.data AS external_id',
+        this.db.raw(`(
+          SELECT tc.code FROM account_meta AS cur
+          JOIN transaction_currencies AS tc ON tc.id::text = TRIM(BOTH '"' FROM cur.data)
+          WHERE cur.account_id = acc.id AND cur.name = 'currency_id'
+          LIMIT 1
+        ) AS currency_code`),
         'notes.text AS notes'
       )
       .leftJoin('account_meta AS num', function () {
@@ -196,20 +248,31 @@ export class Firefly {
 
   // Fetch all transactions
   private async getTransactions (): Promise<Transaction[]> {
-    const db = knex(firefly)
+    const db = this.db
     const transactions = await db('transaction_journals AS tj')
       .select(
         'tj.id',
+        'tj.transaction_group_id AS group_id',
+        'tg.title AS group_title',
         'tt.type',
         'tj.description',
         'tj.date',
         db.raw('ROUND(dst.amount, 2) AS amount'),
         'src.account_id AS source_id',
         'dst.account_id AS destination_id',
+        'cur.code AS currency_code',
         'dst.foreign_amount',
         'tc.code AS foreign_currency_code',
         'meta.data AS external_id',
-        'c.name AS category_name'
+        'c.name AS category_name',
+        'b.name AS budget_name',
+        db.raw(`ARRAY(
+          SELECT t.tag FROM tag_transaction_journal AS ttj
+          JOIN tags AS t ON ttj.tag_id = t.id
+          WHERE ttj.transaction_journal_id = tj.id AND t.deleted_at IS NULL
+          ORDER BY t.tag
+        ) AS tags`),
+        'notes.text AS notes'
       )
       .leftJoin('transactions AS src', function () {
         this.on('tj.id', 'src.transaction_journal_id')
@@ -226,11 +289,21 @@ export class Firefly {
           .andOnVal('meta.name', 'external_id')
           .andOnNull('meta.deleted_at')
       })
+      .leftJoin('notes', function () {
+        this.on('tj.id', 'notes.noteable_id')
+          .andOnVal('notes.noteable_type', 'FireflyIII\\Models\\TransactionJournal')
+          .andOnNull('notes.deleted_at')
+      })
+      .leftJoin('transaction_currencies AS cur', 'dst.transaction_currency_id', 'cur.id')
       .leftJoin('transaction_currencies AS tc', 'dst.foreign_currency_id', 'tc.id')
       .leftJoin('transaction_types AS tt', 'tj.transaction_type_id', 'tt.id')
+      .leftJoin('transaction_groups AS tg', 'tj.transaction_group_id', 'tg.id')
       .leftJoin('category_transaction_journal AS ctj', 'tj.id', 'ctj.transaction_journal_id')
       .leftJoin('categories AS c', 'ctj.category_id', 'c.id')
+      .leftJoin('budget_transaction_journal AS btj', 'tj.id', 'btj.transaction_journal_id')
+      .leftJoin('budgets AS b', 'btj.budget_id', 'b.id')
       .whereNull('tj.deleted_at')
+      .orderBy(['tj.transaction_group_id', 'tj.id'])
 
     transactions.forEach(account => {
       account.external_id = JSON.parse(account.external_id)
@@ -239,6 +312,48 @@ export class Firefly {
     return transactions
   }
 
+  // Fetch the balance of every account
+  // Provisional transactions are excluded as they aren't in the bank's current balance
+  private async getBalances (): Promise<Map<number, Big>> {
+    const db = this.db
+    const balances = await db('transactions AS t')
+      .select('t.account_id', db.raw('SUM(t.amount) AS balance'))
+      .join('transaction_journals AS tj', 't.transaction_journal_id', 'tj.id')
+      .leftJoin('journal_meta AS meta', function () {
+        this.on('tj.id', 'meta.transaction_journal_id')
+          .andOnVal('meta.name', 'external_id')
+          .andOnNull('meta.deleted_at')
+      })
+      .whereNull('t.deleted_at')
+      .whereNull('tj.deleted_at')
+      .whereRaw("COALESCE(meta.data, '') NOT LIKE ?", ['%pending\\_%'])
+      .groupBy('t.account_id')
+
+    return new Map(balances.map(row => [row.account_id, Big(row.balance)]))
+  }
+
+  // Adjust balances by what exporting the modified transactions changes
+  // Provisional transactions are left out, as they are when reading balances
+  private adjustBalances (balances: Map<number, Big>): void {
+    const apply = (transactions: Transactions, sign: number): void => {
+      for (const transaction of transactions) {
+        if (transaction.pendingId !== undefined) continue
+
+        const splits: Transactions.Split[] = transaction.splits ?? [transaction]
+        splits.forEach(split => {
+          const amount = split.amount.times(sign)
+          const sourceId = this.accounts.get(split.sourceId)?.source?.fireflyId
+          const destinationId = this.accounts.get(split.destinationId)?.destination?.fireflyId
+          if (sourceId !== undefined) balances.set(sourceId, (balances.get(sourceId) ?? Big(0)).minus(amount))
+          if (destinationId !== undefined) balances.set(destinationId, (balances.get(destinationId) ?? Big(0)).plus(amount))
+        })
+      }
+    }
+
+    apply(this.transactions, 1)
+    apply(this.actualTransactions, -1)
+  }
+
   // Find all accounts that match any of the provided identifiers
   private findMatches (account: Omit<Accounts.Account, 'id'>): Accounts.Account[] {
     const matches: Map<number, Accounts.Account> = new Map()
@@ -294,6 +409,7 @@ export class Firefly {
       destination: a.destination ?? b.destination,
       akahuId: a.akahuId ?? b.akahuId,
       name: a.name,
+      currencyCode: a.currencyCode ?? b.currencyCode,
       bankNumbers: new Set([...a.bankNumbers, ...b.bankNumbers]),
       alternateNames: new Map([...a.alternateNames, ...b.alternateNames])
     }
@@ -332,6 +448,7 @@ export class Firefly {
         alternateNames: new Map()
       }
 
+      if (fireflyAccount.currency_code !== null) account.currencyCode = fireflyAccount.currency_code
       account.alternateNames.set(Accounts.normalizeName(name), name)
 
       // Add bank account numbers
@@ -376,36 +493,88 @@ export class Firefly {
   public async importTransactions (): Promise<void> {
     const fireflyTransactions = await this.getTransactions()
 
-    // Process each Firefly transaction
+    // Group the journals of split transactions together
+    const groups: Map<number, Transaction[]> = new Map()
     fireflyTransactions.forEach(fireflyTransaction => {
+      const journals = groups.get(fireflyTransaction.group_id) ?? []
+      journals.push(fireflyTransaction)
+      groups.set(fireflyTransaction.group_id, journals)
+    })
+
+    // Process each Firefly transaction
+    groups.forEach((journals, groupId) => {
       // Split comma seperated external IDs into an array
       // Array should be empty if external ID is empty or null
-      const externalId = fireflyTransaction.external_id ?? ''
-      const externalIds = externalId.length === 0 ? [] : externalId.split(',')
+      const externalIds = journals.flatMap(journal => {
+        const externalId = journal.external_id ?? ''
+        return externalId.length === 0 ? [] : externalId.split(',')
+      })
       const akahuIds = externalIds.filter(id => id.startsWith('trans_'))
+      const pendingId = externalIds.find(id => id.startsWith('pending_'))
+
+      const splits = journals.map(journal => {
+        const source = this.actualAccounts.getByFireflyId(journal.source_id)
+        const destination = this.actualAccounts.getByFireflyId(journal.destination_id)
+
+        // Confirm source and destination account exist
+        // This should be enforced by a foreign key in the database
+        if (source === undefined || destination === undefined) throw Error("Source or desination account doesn't exist")
+
+        const split: Transactions.Split = {
+          journalId: journal.id,
+          description: journal.description,
+          amount: Big(journal.amount),
+          sourceId: source.id,
+          destinationId: destination.id
+        }
 
-      const source = this.actualAccounts.getByFireflyId(fireflyTransaction.source_id)
-      const destination = this.actualAccounts.getByFireflyId(fireflyTransaction.destination_id)
+        // Add optional values
+        if (journal.currency_code !== null) split.currencyCode = journal.currency_code
+        if (journal.foreign_amount !== null) split.foreignAmount = Big(journal.foreign_amount)
+        if (journal.foreign_currency_code !== null) split.foreignCurrencyCode = journal.foreign_currency_code
+        if (journal.category_name !== null) split.categoryName = journal.category_name
+        if (journal.budget_name !== null) split.budgetName = journal.budget_name
+        return split
+      })
 
-      // Confirm source and destination account exist
-      // This should be enforced by a foreign key in the database
-      if (source === undefined || destination === undefined) throw Error("Source or desination account doesn't exist")
+      const [first] = journals
+      const [firstSplit] = splits
+      if (first === undefined || firstSplit === undefined) return
 
       // Create Transaction from Firefly data
+      const { journalId: _, ...details } = firstSplit
       const transaction: Omit<Transactions.Transaction, 'id'> = {
-        fireflyId: fireflyTransaction.id,
-        description: fireflyTransaction.description,
-        date: fireflyTransaction.date,
-        amount: Big(fireflyTransaction.amount),
-        sourceId: source.id,
-        destinationId: destination.id,
+        ...details,
+        fireflyId: groupId,
+        date: first.date,
         akahuIds: new Set(akahuIds)
       }
 
-      // Add optional values
-      if (fireflyTransaction.foreign_amount !== null) transaction.foreignAmount = Big(fireflyTransaction.foreign_amount)
-      if (fireflyTransaction.foreign_currency_code !== null) transaction.foreignCurrencyCode = fireflyTransaction.foreign_currency_code
-      if (fireflyTransaction.category_name !== null) transaction.categoryName = fireflyTransaction.category_name
+      // Split transactions are described by the group title and use the total amount
+      // Other details are kept on each split
+      if (splits.length > 1) {
+        transaction.description = first.group_title ?? first.description
+        transaction.amount = splits.reduce((total, split) => total.plus(split.amount), Big(0))
+        transaction.splits = splits
+        delete transaction.foreignAmount
+        delete transaction.foreignCurrencyCode
+        delete transaction.categoryName
+        delete transaction.budgetName
+      }
+
+      const tags = new Set(journals.flatMap(journal => journal.tags))
+      if (tags.size > 0) transaction.tags = tags
+
+      // Add bank payment details from notes
+      const notes = first.notes
+      if (notes !== null) {
+        transaction.notes = notes
+        Firefly.PAYMENT_DETAILS.forEach(([field, regex]) => {
+          const value = notes.match(regex)?.[1]
+          if (value !== undefined) transaction[field] = value
+        })
+      }
+      if (pendingId !== undefined) transaction.pendingId = pendingId
 
       this.actualTransactions.create(transaction)
     })
@@ -429,11 +598,33 @@ export class Firefly {
     return notes.trim()
   }
 
+  private updateTransactionNotes (transaction: Transactions.Transaction): string {
+    let notes = transaction.notes ?? ''
+
+    // Remove existing payment details from notes
+    Firefly.PAYMENT_DETAILS.forEach(([, regex]) => {
+      notes = notes.replace(regex, '')
+    })
+    notes = notes.trim()
+
+    // Add payment details to bottom of notes
+    const details = Firefly.PAYMENT_DETAILS.flatMap(([field, , label]) => {
+      const value = transaction[field]
+      return value === undefined ? [] : [`**${label}** \`${value.replaceAll('`', "'")}\``]
+    })
+    if (details.length > 0) {
+      notes = `${notes}\n\n${details.join('\n')}`
+    }
+
+    return notes.trim()
+  }
+
   private async updateAccount (
     account: Accounts.Account,
     oldAccount: Accounts.Account | undefined,
     select: 'source' | 'destination',
-    dryRun: boolean
+    dryRun: boolean,
+    journal: SyncJournal | undefined
   ): Promise<void> {
     // Skip if source / destination undefined
     const sourceDest = account[select]
@@ -449,13 +640,16 @@ export class Firefly {
       account_number: [...account.bankNumbers].sort().join(','),
       notes: this.updateNotes(sourceDest.notes, account.akahuId, otherNames)
     }
+    if (account.currencyCode !== undefined) update.currency_code = account.currencyCode
 
+    let oldUpdate: UpdateAccount | undefined
     if (oldAccount !== undefined) {
-      const oldUpdate: UpdateAccount = {
+      oldUpdate = {
         name: oldAccount.name,
         account_number: [...oldAccount.bankNumbers].sort().join(','),
         notes: oldAccount[select]?.notes?.trim() ?? ''
       }
+      if (oldAccount.currencyCode !== undefined) oldUpdate.currency_code = oldAccount.currencyCode
       if (JSON.stringify(oldUpdate) === JSON.stringify(update)) return
     }
 
@@ -463,121 +657,388 @@ export class Firefly {
     try {
       if (sourceDest.fireflyId !== undefined) {
         console.log(`Updating account ${sourceDest.fireflyId}`, update)
-        if (!dryRun) await this.accountsAPI.updateAccount(sourceDest.fireflyId.toString(), update)
+        if (!dryRun) {
+          await this.accountsAPI.updateAccount(sourceDest.fireflyId.toString(), update)
+          await journal?.record('account', 'update', sourceDest.fireflyId, oldUpdate)
+        }
       } else {
-        console.log('Creating account', update)
-        if (!dryRun) await this.accountsAPI.storeAccount({ ...update, type: sourceDest.type })
+        const create: CreateAccount = { ...update, type: sourceDest.type }
+        if (sourceDest.type === Accounts.Type.Asset) {
+          create.account_role = 'defaultAsset'
+        } else if (sourceDest.type === Accounts.Type.Liability) {
+          create.liability_type = 'debt'
+          create.liability_direction = 'debit'
+        }
+
+        console.log('Creating account', create)
+        if (!dryRun) {
+          const response = await this.accountsAPI.storeAccount(create)
+          const fireflyId = parseInt(response.data.data.id)
+          await journal?.record('account', 'create', fireflyId, undefined)
+
+          // Asset and liability accounts are both the source and destination
+          if (sourceDest.type === Accounts.Type.Asset || sourceDest.type === Accounts.Type.Liability) {
+            if (account.source !== undefined) account.source.fireflyId = fireflyId
+            if (account.destination !== undefined) account.destination.fireflyId = fireflyId
+          } else {
+            sourceDest.fireflyId = fireflyId
+          }
+          this.accounts.save(account)
+        }
       }
     } catch (e: any) {
       console.error(account, e?.response?.data)
     }
   }
 
-  private async exportAccounts (dryRun: boolean): Promise<void> {
+  private async exportAccounts (dryRun: boolean, journal: SyncJournal | undefined): Promise<void> {
     // Process each Firefly account
     for (const account of this.accounts) {
       const oldAccount = this.actualAccounts.get(account.id)
 
       // Process source account
-      await this.updateAccount(account, oldAccount, 'source', dryRun)
+      await this.updateAccount(account, oldAccount, 'source', dryRun, journal)
 
       // Process destination (if different from source)
       if (account.destination?.type === Accounts.Type.Expense) {
-        await this.updateAccount(account, oldAccount, 'destination', dryRun)
+        await this.updateAccount(account, oldAccount, 'destination', dryRun, journal)
       }
     }
   }
 
-  private transformTransaction (transaction: Transactions.Transaction): UpdateTransaction {
-    const source = this.accounts.get(transaction.sourceId)?.source
-    if (source?.fireflyId === undefined) throw Error('Source account not set')
-
-    const destination = this.accounts.get(transaction.destinationId)?.destination
-    if (destination?.fireflyId === undefined) throw Error('Destination account not set')
-
-    const type = Firefly.transactionMapping[source.type][destination.type]
-    if (type === undefined) throw Error(`Invalid transaction type ${source.type} -> ${destination.type}`)
-
-    // Construct update request body
-    const update: UpdateTransaction = {
-      type,
-      external_id: [...transaction.akahuIds].sort().join(','),
-      description: transaction.description,
-      date: transaction.date.toISOString(),
-      amount: transaction.amount.toString(),
-      source_id: source.fireflyId.toString(),
-      destination_id: destination.fireflyId.toString()
-    }
+  // Build the update for each split of a transaction
+  // Transactions without splits are treated as a single split
+  private transformTransaction (transaction: Transactions.Transaction): UpdateTransaction[] {
+    // Provisional transactions are flagged by their pending ID
+    const externalIds = [...transaction.akahuIds]
+    if (transaction.pendingId !== undefined) externalIds.push(transaction.pendingId)
+
+    const splits: Transactions.Split[] = transaction.splits ?? [transaction]
+    return splits.map((split, ix) => {
+      const source = this.accounts.get(split.sourceId)?.source
+      if (source?.fireflyId === undefined) throw Error('Source account not set')
+
+      const destination = this.accounts.get(split.destinationId)?.destination
+      if (destination?.fireflyId === undefined) throw Error('Destination account not set')
+
+      const type = Firefly.transactionMapping[source.type][destination.type]
+      if (type === undefined) throw Error(`Invalid transaction type ${source.type} -> ${destination.type}`)
+
+      // Construct update request body
+      const update: UpdateTransaction = {
+        type,
+        external_id: externalIds.sort().join(','),
+        description: split.description,
+        date: transaction.date.toISOString(),
+        amount: split.amount.toString(),
+        source_id: source.fireflyId.toString(),
+        destination_id: destination.fireflyId.toString()
+      }
+
+      // Existing splits must be identified or Firefly replaces them
+      if (transaction.splits !== undefined && split.journalId !== undefined) update.transaction_journal_id = split.journalId.toString()
+
+      // Set optional fields
+      if (split.currencyCode !== undefined) update.currency_code = split.currencyCode
+      if (split.foreignAmount !== undefined) update.foreign_amount = split.foreignAmount.toString()
+      if (split.foreignCurrencyCode !== undefined) update.foreign_currency_code = split.foreignCurrencyCode
+      if (split.categoryName !== undefined) update.category_name = split.categoryName
+      if (split.budgetName !== undefined) update.budget_name = split.budgetName
+      if (transaction.tags !== undefined && transaction.tags.size > 0) update.tags = [...transaction.tags].sort()
 
-    // Set optional fields
-    if (transaction.foreignAmount !== undefined) update.foreign_amount = transaction.foreignAmount.toString()
-    if (transaction.foreignCurrencyCode !== undefined) update.foreign_currency_code = transaction.foreignCurrencyCode
-    if (transaction.categoryName !== undefined) update.category_name = transaction.categoryName
+      // Notes are kept on the first split
+      const notes = ix === 0 ? this.updateTransactionNotes(transaction) : ''
+      if (notes !== '') update.notes = notes
 
-    return update
+      return update
+    })
   }
 
   // Create source / destination accounts as necessary
   private createMissingAccounts() {
     for (const transaction of this.transactions) {
-      const source = this.accounts.get(transaction.sourceId)
-      if (source === undefined) throw Error(`Invalid account ID ${transaction.sourceId}`)
+      for (const split of transaction.splits ?? [transaction]) {
+        const source = this.accounts.get(split.sourceId)
+        if (source === undefined) throw Error(`Invalid account ID ${split.sourceId}`)
 
-      if (source.source === undefined) {
-        source.source = {
-          type: Accounts.Type.Revenue
+        if (source.source === undefined) {
+          source.source = {
+            type: Accounts.Type.Revenue
+          }
+          this.accounts.save(source)
         }
-        this.accounts.save(source)
-      }
 
-      const destination = this.accounts.get(transaction.destinationId)
-      if (destination === undefined) throw Error(`Invalid account ID ${transaction.destinationId}`)
+        const destination = this.accounts.get(split.destinationId)
+        if (destination === undefined) throw Error(`Invalid account ID ${split.destinationId}`)
 
-      if (destination.destination === undefined) {
-        destination.destination = {
-          type: Accounts.Type.Expense
+        if (destination.destination === undefined) {
+          destination.destination = {
+            type: Accounts.Type.Expense
+          }
+          this.accounts.save(destination)
         }
-        this.accounts.save(destination)
       }
     }
   }
 
-  private async exportTransactions (dryRun: boolean): Promise<void> {
+  // Keep fields edited in Firefly since they were last written, and update the rest
+  // Returns undefined if the splits have changed as they can't be matched up
+  private static mergeEdits (written: UpdateTransaction[], current: UpdateTransaction[], update: UpdateTransaction[]): UpdateTransaction[] | undefined {
+    if (written.length !== current.length || current.length !== update.length) return undefined
+
+    return update.map((split, ix) => {
+      const updateSplit: Record<string, unknown> = { ...split }
+      const writtenSplit: Record<string, unknown> = { ...written[ix] }
+      const currentSplit: Record<string, unknown> = { ...current[ix] }
+
+      const fields = new Set([...Object.keys(updateSplit), ...Object.keys(writtenSplit), ...Object.keys(currentSplit)])
+      const merged = [...fields].flatMap(field => {
+        const edited = JSON.stringify(writtenSplit[field]) !== JSON.stringify(currentSplit[field])
+        const value = edited ? currentSplit[field] : updateSplit[field]
+        return value === undefined ? [] : [[field, value]]
+      })
+
+      return Object.fromEntries(merged) as UpdateTransaction
+    })
+  }
+
+  // List the fields edited in Firefly since they were last written
+  private static editedFields (written: UpdateTransaction[], current: UpdateTransaction[]): string[] {
+    const fields: Set<string> = new Set()
+    if (written.length !== current.length) fields.add('splits')
+
+    current.forEach((split, ix) => {
+      const writtenSplit: Record<string, unknown> = { ...written[ix] }
+      const currentSplit: Record<string, unknown> = { ...split }
+      new Set([...Object.keys(writtenSplit), ...Object.keys(currentSplit)]).forEach(field => {
+        if (JSON.stringify(writtenSplit[field]) !== JSON.stringify(currentSplit[field])) fields.add(field)
+      })
+    })
+
+    return [...fields]
+  }
+
+  private async exportTransactions (
+    dryRun: boolean,
+    fingerprints: Fingerprints,
+    editPolicy: ManualEditPolicy,
+    journal: SyncJournal | undefined
+  ): Promise<void> {
+    const written: Set<number> = new Set()
+
     // Process each Firefly transaction
     for (const transaction of this.transactions) {
-      const update = this.transformTransaction(transaction)
+      const desired = this.transformTransaction(transaction)
+      let update = desired
 
       // Check if transaction has been modified
       const oldTransaction = this.actualTransactions.get(transaction.id)
-      if (oldTransaction !== undefined) {
-        const otherUpdate = this.transformTransaction(oldTransaction)
-        if (JSON.stringify(update) === JSON.stringify(otherUpdate)) continue
+      let current: UpdateTransaction[] | undefined
+      if (oldTransaction !== undefined && transaction.fireflyId !== undefined) {
+        current = this.transformTransaction(oldTransaction)
+        const written = fingerprints.get(transaction.fireflyId)
+
+        // Start tracking transactions written before fingerprints were kept
+        if (written === undefined) fingerprints.set(transaction.fireflyId, current)
+        if (JSON.stringify(update) === JSON.stringify(current)) continue
+
+        // Protect transactions edited by hand since they were last written
+        if (written !== undefined && written !== JSON.stringify(current) && editPolicy !== ManualEditPolicy.Overwrite) {
+          const writtenUpdate: UpdateTransaction[] = JSON.parse(written)
+          const merged = editPolicy === ManualEditPolicy.Merge ? Firefly.mergeEdits(writtenUpdate, current, update) : undefined
+          if (merged === undefined) {
+            const fields = editPolicy === ManualEditPolicy.Skip ? '' : ` (${Firefly.editedFields(writtenUpdate, current).join(', ')})`
+            console.log(`Skipping transaction ${transaction.fireflyId} edited in Firefly${fields}`)
+            continue
+          }
+
+          update = merged
+          if (JSON.stringify(update) === JSON.stringify(current)) continue
+        }
       }
 
+      // Firefly requires a title for split transactions
       const request = {
         apply_rules: true,
         fire_webhooks: true,
-        transactions: [update]
+        group_title: update.length > 1 ? transaction.description : undefined,
+        transactions: update
       }
 
       // Update or create transaction
       try {
         if (transaction.fireflyId !== undefined) {
           console.log(`Updating transaction ${transaction.fireflyId}`, update)
-          if (!dryRun) await this.transactionAPI.updateTransaction(transaction.fireflyId.toString(), request)
+          if (!dryRun) {
+            await this.transactionAPI.updateTransaction(transaction.fireflyId.toString(), request)
+            await journal?.record('transaction', 'update', transaction.fireflyId, current)
+
+            // Record what we wanted to write, so merged edits are still detected next time
+            // Otherwise record what Firefly stored once everything is written
+            fingerprints.set(transaction.fireflyId, desired)
+            if (update === desired) written.add(transaction.fireflyId)
+          }
         } else {
           console.log('Creating transaction', update)
-          if (!dryRun) await this.transactionAPI.storeTransaction(request)
+          if (!dryRun) {
+            const response = await this.transactionAPI.storeTransaction(request)
+            const fireflyId = parseInt(response.data.data.id)
+            fingerprints.set(fireflyId, update)
+            written.add(fireflyId)
+            await journal?.record('transaction', 'create', fireflyId, undefined)
+          }
         }
       } catch (e: any) {
         console.error(request, e?.response?.data)
       }
     }
+
+    // Delete transactions that have been removed
+    for (const transaction of this.actualTransactions) {
+      if (transaction.fireflyId === undefined || this.transactions.get(transaction.id) !== undefined) continue
+
+      try {
+        console.log(`Deleting transaction ${transaction.fireflyId}`)
+        if (!dryRun) {
+          await this.transactionAPI.deleteTransaction(transaction.fireflyId.toString())
+          fingerprints.delete(transaction.fireflyId)
+          await journal?.record('transaction', 'delete', transaction.fireflyId, this.transformTransaction(transaction))
+        }
+      } catch (e: any) {
+        console.error(transaction, e?.response?.data)
+      }
+    }
+
+    if (written.size > 0) await this.refreshFingerprints(fingerprints, written)
+  }
+
+  // Fingerprint transactions as Firefly stored them
+  // Firefly rules and Firefly itself may change what was written, which would otherwise look like a manual edit
+  private async refreshFingerprints (fingerprints: Fingerprints, fireflyIds: Set<number>): Promise<void> {
+    const { actualAccounts, actualTransactions, modifiedAccounts, modifiedTransactions } = this
+
+    // Read Firefly again without losing the accounts and transactions still being used
+    this.actualAccounts = new Accounts()
+    this.actualTransactions = new Transactions()
+    try {
+      await this.import()
+      for (const transaction of this.actualTransactions) {
+        if (transaction.fireflyId !== undefined && fireflyIds.has(transaction.fireflyId)) {
+          fingerprints.set(transaction.fireflyId, this.transformTransaction(transaction))
+        }
+      }
+    } finally {
+      this.actualAccounts = actualAccounts
+      this.actualTransactions = actualTransactions
+      this.modifiedAccounts = modifiedAccounts
+      this.modifiedTransactions = modifiedTransactions
+    }
+  }
+
+  // Compare asset and liability account balances with the balances reported by Akahu
+  // Optionally create reconciliation transactions to correct any drift
+  public async reconcile (akahuBalances: Map<string, Big>, createTransactions: boolean, dryRun: boolean, journal?: SyncJournal): Promise<void> {
+    // Nothing was exported in a dry run, so include what the export would have changed
+    const balances = await this.getBalances()
+    if (dryRun) this.adjustBalances(balances)
+    const reconciliationAccount = [...this.accounts].find(account => account.source?.type === Accounts.Type.Reconciliation)
+
+    for (const [akahuId, akahuBalance] of akahuBalances) {
+      const account = this.accounts.getByAkahuId(akahuId)
+      const fireflyId = account?.source?.fireflyId
+      if (account === undefined || fireflyId === undefined) continue
+      if (account.source?.type !== Accounts.Type.Asset && account.source?.type !== Accounts.Type.Liability) continue
+
+      const balance = balances.get(fireflyId) ?? Big(0)
+      const drift = akahuBalance.minus(balance)
+      if (drift.eq(0)) continue
+
+      console.log(`Account ${account.name} has balance ${balance.toFixed(2)} but Akahu reports ${akahuBalance.toFixed(2)} (${drift.toFixed(2)})`)
+      if (!createTransactions) continue
+
+      if (reconciliationAccount === undefined) {
+        console.error('Cannot reconcile without a Reconciliation account in Firefly')
+        continue
+      }
+
+      // Money enters the account from the reconciliation account or leaves to it
+      const transaction: Transactions.Transaction = {
+        id: 0,
+        fireflyId: undefined,
+        akahuIds: new Set(),
+        description: 'Reconciliation with Akahu balance',
+        date: new Date(),
+        amount: drift.abs(),
+        sourceId: drift.gt(0) ? reconciliationAccount.id : account.id,
+        destinationId: drift.gt(0) ? account.id : reconciliationAccount.id
+      }
+      if (account.currencyCode !== undefined) transaction.currencyCode = account.currencyCode
+      const update = this.transformTransaction(transaction)
+
+      try {
+        console.log('Creating reconciliation', update)
+        if (!dryRun) {
+          const response = await this.transactionAPI.storeTransaction({ transactions: update })
+          await journal?.record('transaction', 'create', parseInt(response.data.data.id), undefined)
+        }
+      } catch (e: any) {
+        console.error(update, e?.response?.data)
+      }
+    }
+  }
+
+  // Undo the changes recorded for a sync run, most recent first
+  // Created entities are deleted and updated or deleted ones restored from their previous payload
+  public async rollback (changes: SyncJournal.Change[], fingerprints: Fingerprints, dryRun: boolean): Promise<void> {
+    for (const change of changes) {
+      const fireflyId = change.firefly_id.toString()
+
+      try {
+        if (change.entity === 'account') {
+          if (change.action === 'create') {
+            console.log(`Deleting account ${fireflyId}`)
+            if (!dryRun) await this.accountsAPI.deleteAccount(fireflyId)
+          } else if (change.action === 'update' && change.previous !== null) {
+            console.log(`Restoring account ${fireflyId}`, change.previous)
+            if (!dryRun) await this.accountsAPI.updateAccount(fireflyId, change.previous as UpdateAccount)
+          }
+        } else if (change.action === 'create') {
+          console.log(`Deleting transaction ${fireflyId}`)
+          if (!dryRun) {
+            await this.transactionAPI.deleteTransaction(fireflyId)
+            fingerprints.delete(change.firefly_id)
+          }
+        } else if (change.action === 'update') {
+          const previous = change.previous as UpdateTransaction[]
+          console.log(`Restoring transaction ${fireflyId}`, previous)
+          if (!dryRun) {
+            await this.transactionAPI.updateTransaction(fireflyId, {
+              group_title: previous.length > 1 ? previous[0]?.description : undefined,
+              transactions: previous
+            })
+            fingerprints.set(change.firefly_id, previous)
+          }
+        } else {
+          // Deleted transactions come back with a new ID
+          const previous = (change.previous as UpdateTransaction[]).map(({ transaction_journal_id: _, ...split }) => split)
+          console.log(`Recreating transaction ${fireflyId}`, previous)
+          if (!dryRun) {
+            const response = await this.transactionAPI.storeTransaction({
+              group_title: previous.length > 1 ? previous[0]?.description : undefined,
+              transactions: previous
+            })
+            fingerprints.set(parseInt(response.data.data.id), previous)
+          }
+        }
+      } catch (e: any) {
+        console.error(change, e?.response?.data)
+      }
+    }
   }
 
-  public async export (dryRun: boolean): Promise<void> {
+  public async export (dryRun: boolean, fingerprints: Fingerprints, editPolicy: ManualEditPolicy, journal?: SyncJournal): Promise<void> {
     this.createMissingAccounts()
-    await this.exportAccounts(dryRun)
-    await this.exportTransactions(dryRun)
+    await this.exportAccounts(dryRun, journal)
+    await this.exportTransactions(dryRun, fingerprints, editPolicy, journal)
   }
 }
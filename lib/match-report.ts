@@ -0,0 +1,90 @@
+import { writeFileSync } from 'fs'
+import type { Transactions } from './transactions'
+
+// Records why transactions were matched the way they were
+// Written as JSON when a sync finishes so merges can be inspected
+export class MatchReport {
+  private readonly accounts: MatchReport.AccountEntry[] = []
+  private readonly merges: MatchReport.MergeEntry[] = []
+
+  private static summary (transaction: Transactions.Transaction): MatchReport.Summary {
+    return {
+      id: transaction.id,
+      fireflyId: transaction.fireflyId ?? null,
+      akahuIds: [...transaction.akahuIds],
+      description: transaction.description,
+      date: transaction.date.toISOString(),
+      amount: transaction.amount.toString()
+    }
+  }
+
+  // Record how the counterparty of an Akahu transaction was found
+  public addAccount (entry: MatchReport.AccountEntry): void {
+    this.accounts.push(entry)
+  }
+
+  // Record the candidates considered for a transaction and the one chosen
+  public addMerge (transaction: Transactions.Transaction, candidates: MatchReport.Considered[], match: Transactions.Transaction | undefined): void {
+    this.merges.push({
+      transaction: MatchReport.summary(transaction),
+      match: match?.id ?? null,
+      candidates: candidates.map(candidate => ({ ...candidate, transaction: MatchReport.summary(candidate.transaction) }))
+    })
+  }
+
+  public save (path: string): void {
+    writeFileSync(path, JSON.stringify({ accounts: this.accounts, merges: this.merges }, undefined, 2))
+    console.log(`Wrote match report to ${path}`)
+  }
+}
+
+export namespace MatchReport {
+  export interface Summary {
+    id: number
+    fireflyId: number | null
+    akahuIds: string[]
+    description: string
+    date: string
+    amount: string
+  }
+
+  // Result of each filter applied to a candidate
+  export interface Checks {
+    fireflyId: boolean
+    foreignAmount: boolean
+    accounts: boolean
+    amount: boolean
+    compare: boolean
+    window: boolean
+  }
+
+  export interface Candidate {
+    transaction: Summary
+    checks: Checks
+    // Milliseconds between the transaction dates
+    dateDifference: number
+    // Description similarity from 0 to 1
+    descriptionScore: number
+  }
+
+  export interface Considered extends Omit<Candidate, 'transaction'> {
+    transaction: Transactions.Transaction
+  }
+
+  export interface MergeEntry {
+    transaction: Summary
+    match: number | null
+    candidates: Candidate[]
+  }
+
+  export interface AccountEntry {
+    // Pending transactions have no Akahu ID
+    akahuId: string | null
+    description: string
+    // How the account was found, see AccountMatch
+    match: string
+    account: string | null
+    // Set when the account was changed in Firefly
+    corrected: string | null
+  }
+}
@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs'
+import { Accounts } from './accounts'
+
+export class MergePolicy {
+  private readonly defaults: MergePolicy.Strategies
+  private readonly accounts: Map<string, Partial<MergePolicy.Strategies>>
+
+  constructor (defaults: Partial<MergePolicy.Strategies>, accounts: Map<string, Partial<MergePolicy.Strategies>>) {
+    this.defaults = { ...MergePolicy.DEFAULT, ...defaults }
+    this.accounts = accounts
+  }
+
+  private static validate (strategies: Partial<MergePolicy.Strategies>, where: string): void {
+    Object.entries(strategies).forEach(([field, strategy]) => {
+      if (!(field in MergePolicy.DEFAULT)) throw Error(`Unknown field ${field} in ${where}`)
+      if (!Object.values(MergePolicy.Strategy).includes(strategy)) throw Error(`Unknown strategy ${String(strategy)} for ${field} in ${where}`)
+      if (strategy === MergePolicy.Strategy.Timed && field !== 'date') throw Error(`Strategy timed can only be used for date in ${where}`)
+    })
+  }
+
+  // Load the merge policy from a JSON file
+  // The file gives default strategies and overrides for counterparty accounts by name
+  public static load (path: string | undefined): MergePolicy {
+    if (path === undefined) return new MergePolicy({}, new Map())
+
+    const file: MergePolicy.File = JSON.parse(readFileSync(path, 'utf8'))
+    MergePolicy.validate(file.default ?? {}, path)
+    Object.entries(file.accounts ?? {}).forEach(([name, strategies]) => {
+      MergePolicy.validate(strategies, `${path} account ${name}`)
+    })
+
+    const accounts = new Map(Object.entries(file.accounts ?? {}).map(([name, strategies]) => [Accounts.normalizeName(name), strategies]))
+    return new MergePolicy(file.default ?? {}, accounts)
+  }
+
+  // Get the strategies for a transaction given the names of its accounts
+  public get (names: string[]): MergePolicy.Strategies {
+    const overrides = names.map(name => this.accounts.get(Accounts.normalizeName(name))).find(strategies => strategies !== undefined)
+    return { ...this.defaults, ...overrides }
+  }
+}
+
+export namespace MergePolicy {
+  // How a field is merged when a Firefly transaction (kept) matches an Akahu transaction (incoming)
+  export enum Strategy {
+    // Firefly wins
+    Keep = 'keep',
+    // Akahu wins, unless it has no value
+    Replace = 'replace',
+    // Only filled in when Firefly has no value
+    Fill = 'fill',
+    // Keep both values, fields with a single value are filled in
+    Both = 'both',
+    // Dates only, Akahu wins if it has the time of the transaction
+    Timed = 'timed'
+  }
+
+  export interface Strategies {
+    description: Strategy
+    date: Strategy
+    category: Strategy
+    budget: Strategy
+    // Includes the foreign currency code and exchange rate
+    foreignAmount: Strategy
+    tags: Strategy
+    notes: Strategy
+    // Particulars, code and reference
+    paymentDetails: Strategy
+  }
+
+  export interface File {
+    default?: Partial<Strategies>
+    accounts?: Record<string, Partial<Strategies>>
+  }
+
+  // Akahu descriptions replace Firefly ones and tags are combined, everything else is filled in
+  export const DEFAULT: Strategies = {
+    description: Strategy.Replace,
+    date: Strategy.Timed,
+    category: Strategy.Fill,
+    budget: Strategy.Fill,
+    foreignAmount: Strategy.Fill,
+    tags: Strategy.Both,
+    notes: Strategy.Fill,
+    paymentDetails: Strategy.Fill
+  }
+}
@@ -0,0 +1,98 @@
+import type { Knex } from 'knex'
+
+// Akahu transactions whose counterparty couldn't be matched with enough confidence
+// They are held back from Firefly until someone picks the right account
+export class ReviewQueue {
+  private readonly entries: Map<string, ReviewQueue.Entry> = new Map()
+  private readonly added: ReviewQueue.Entry[] = []
+
+  public static async load (db: Knex): Promise<ReviewQueue> {
+    const queue = new ReviewQueue()
+    const entries = await db<ReviewQueue.Entry>('akahu_review_queue').select()
+    entries.forEach(entry => queue.entries.set(entry.id, entry))
+    return queue
+  }
+
+  // Get the account name chosen for a transaction
+  public getResolution (id: string): string | undefined {
+    return this.entries.get(id)?.account ?? undefined
+  }
+
+  // Queue a transaction for review, unless it is already queued
+  public add (id: string, description: string, candidates: ReviewQueue.Candidate[]): void {
+    if (this.entries.has(id)) return
+
+    const entry: ReviewQueue.Entry = {
+      id,
+      description,
+      candidates,
+      created_at: new Date(),
+      account: null,
+      resolved_at: null
+    }
+    this.entries.set(id, entry)
+    this.added.push(entry)
+  }
+
+  // Store newly queued transactions
+  public async save (db: Knex): Promise<void> {
+    if (this.added.length === 0) return
+
+    // Arrays must be serialised or they are sent as Postgres arrays
+    await db('akahu_review_queue')
+      .insert(this.added.map(entry => ({ ...entry, candidates: JSON.stringify(entry.candidates) })))
+      .onConflict('id')
+      .ignore()
+    this.added.length = 0
+  }
+
+  // Print the transactions waiting for review
+  public static async print (db: Knex): Promise<void> {
+    const entries = await db<ReviewQueue.Entry>('akahu_review_queue')
+      .whereNull('resolved_at')
+      .orderBy('created_at')
+
+    if (entries.length === 0) {
+      console.log('No transactions to review')
+      return
+    }
+
+    entries.forEach(entry => {
+      console.log(`${entry.id} ${entry.description}`)
+      entry.candidates.forEach(candidate => {
+        console.log(`  ${candidate.rating.toFixed(2)} ${candidate.name}`)
+      })
+    })
+  }
+
+  // Record the account chosen for a transaction
+  // An account that doesn't exist yet is created by the next sync, so names that weren't suggested are flagged
+  public static async resolve (db: Knex, id: string, account: string): Promise<void> {
+    const updated = await db<ReviewQueue.Entry>('akahu_review_queue')
+      .where('id', id)
+      .update({ account, resolved_at: new Date() })
+
+    if (updated === 0) throw Error(`Transaction ${id} is not in the review queue`)
+
+    const entry = await db<ReviewQueue.Entry>('akahu_review_queue').where('id', id).first()
+    if (entry !== undefined && !entry.candidates.some(candidate => candidate.name === account)) {
+      console.log(`${account} was not suggested for ${id}, it will be created if there is no account with that name`)
+    }
+  }
+}
+
+export namespace ReviewQueue {
+  export interface Candidate {
+    name: string
+    rating: number
+  }
+
+  export interface Entry {
+    id: string
+    description: string
+    candidates: Candidate[]
+    created_at: Date
+    account: string | null
+    resolved_at: Date | null
+  }
+}
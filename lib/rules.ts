@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs'
+import type { PendingTransaction, Transaction as AkahuTransaction } from 'akahu'
+
+export class Rules {
+  private readonly rules: Rules.Rule[]
+
+  constructor (rules: Rules.Rule[]) {
+    this.rules = rules
+  }
+
+  // Load rules from a JSON file containing an array of rules
+  public static load (path: string | undefined): Rules {
+    if (path === undefined) return new Rules([])
+
+    const rules: unknown = JSON.parse(readFileSync(path, 'utf8'))
+    if (!Array.isArray(rules)) throw Error(`Rules file ${path} must contain an array of rules`)
+
+    rules.forEach((rule: Rules.Rule, ix) => {
+      if (typeof rule.counterparty !== 'string') throw Error(`Rule ${ix} in ${path} has no counterparty`)
+
+      // Check regular expressions are valid
+      for (const pattern of [rule.description, rule.particulars, rule.code, rule.reference]) {
+        if (pattern !== undefined) RegExp(pattern)
+      }
+    })
+
+    return new Rules(rules)
+  }
+
+  // Case-insensitive regular expression match, an undefined pattern matches anything
+  private static matches (pattern: string | undefined, value: string | undefined): boolean {
+    if (pattern === undefined) return true
+    return RegExp(pattern, 'i').test(value ?? '')
+  }
+
+  private static test (rule: Rules.Rule, transaction: AkahuTransaction | PendingTransaction): boolean {
+    const meta = 'meta' in transaction ? transaction.meta : {}
+
+    if (rule.account !== undefined && rule.account !== transaction._account) return false
+    if (rule.type !== undefined && ![rule.type].flat().includes(transaction.type)) return false
+    if (rule.minAmount !== undefined && transaction.amount < rule.minAmount) return false
+    if (rule.maxAmount !== undefined && transaction.amount > rule.maxAmount) return false
+
+    return Rules.matches(rule.description, transaction.description) &&
+      Rules.matches(rule.particulars, meta.particulars) &&
+      Rules.matches(rule.code, meta.code) &&
+      Rules.matches(rule.reference, meta.reference)
+  }
+
+  // Find the counterparty account name given by the first matching rule
+  public find (transaction: AkahuTransaction | PendingTransaction): string | undefined {
+    return this.rules.find(rule => Rules.test(rule, transaction))?.counterparty
+  }
+}
+
+export namespace Rules {
+  // A rule matches when all of its conditions match
+  // Text conditions are case-insensitive regular expressions
+  // Amounts are signed (negative for money leaving the account)
+  export interface Rule {
+    description?: string
+    particulars?: string
+    code?: string
+    reference?: string
+    type?: AkahuTransaction['type'] | Array<AkahuTransaction['type']>
+    minAmount?: number
+    maxAmount?: number
+    account?: string
+    counterparty: string
+  }
+}
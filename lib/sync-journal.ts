@@ -0,0 +1,79 @@
+import type { Knex } from 'knex'
+
+// Records the Firefly accounts and transactions changed by a sync run
+// so the run can be rolled back later
+export class SyncJournal {
+  private readonly db: Knex
+  public readonly id: number
+
+  private constructor (db: Knex, id: number) {
+    this.db = db
+    this.id = id
+  }
+
+  public static async start (db: Knex): Promise<SyncJournal> {
+    const [run] = await db<SyncJournal.Run>('sync_runs').insert({ started_at: new Date() }).returning('id')
+    if (run === undefined) throw Error('Could not record sync run')
+
+    console.log(`Recording changes as sync run ${run.id}`)
+    return new SyncJournal(db, run.id)
+  }
+
+  // Record a change along with the Firefly payload it replaced
+  // Changes are stored straight away so a failed run can still be rolled back
+  public async record (entity: SyncJournal.Entity, action: SyncJournal.Action, fireflyId: number, previous: unknown): Promise<void> {
+    // Arrays must be serialised or they are sent as Postgres arrays
+    await this.db('sync_run_changes').insert({
+      run_id: this.id,
+      entity,
+      action,
+      firefly_id: fireflyId,
+      previous: previous === undefined ? null : JSON.stringify(previous),
+      changed_at: new Date()
+    })
+  }
+
+  public async finish (): Promise<void> {
+    await this.db<SyncJournal.Run>('sync_runs').where('id', this.id).update({ finished_at: new Date() })
+  }
+
+  // Get the changes made by a run, most recent first
+  // Only the latest run that hasn't been rolled back can be rolled back
+  public static async changes (db: Knex, runId: number): Promise<SyncJournal.Change[]> {
+    const run = await db<SyncJournal.Run>('sync_runs').where('id', runId).first()
+    if (run === undefined) throw Error(`Sync run ${runId} doesn't exist`)
+    if (run.rolled_back_at !== null) throw Error(`Sync run ${runId} was already rolled back`)
+
+    // Later runs may have changed the same entities, or posted transactions to accounts this run created
+    const later = await db<SyncJournal.Run>('sync_runs').where('id', '>', runId).whereNull('rolled_back_at').orderBy('id', 'desc').first()
+    if (later !== undefined) throw Error(`Sync run ${later.id} is more recent, roll it back first`)
+
+    return await db<SyncJournal.Change>('sync_run_changes').where('run_id', runId).orderBy('id', 'desc')
+  }
+
+  public static async markRolledBack (db: Knex, runId: number): Promise<void> {
+    await db<SyncJournal.Run>('sync_runs').where('id', runId).update({ rolled_back_at: new Date() })
+  }
+}
+
+export namespace SyncJournal {
+  export type Entity = 'account' | 'transaction'
+  export type Action = 'create' | 'update' | 'delete'
+
+  export interface Run {
+    id: number
+    started_at: Date
+    finished_at: Date | null
+    rolled_back_at: Date | null
+  }
+
+  export interface Change {
+    id: number
+    run_id: number
+    entity: Entity
+    action: Action
+    firefly_id: number
+    previous: unknown
+    changed_at: Date
+  }
+}
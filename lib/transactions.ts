@@ -1,5 +1,7 @@
 import Big from 'big.js'
 import { compareTwoStrings } from 'string-similarity'
+import type { MatchReport } from './match-report'
+import { MergePolicy } from './merge-policy'
 import { Util } from './util'
 
 export class Transactions implements Iterable<Transactions.Transaction> {
@@ -8,9 +10,32 @@ export class Transactions implements Iterable<Transactions.Transaction> {
   private fireflyIdIndex: Map<number, Transactions.Transaction> = new Map()
   private akahuIdIndex: Map<string, Transactions.Transaction> = new Map()
 
+  // Index of possible matches, keyed on source, destination and amount
+  // The keys each transaction was indexed under are kept as transactions may be modified before being saved
+  private candidateIndex: Map<string, Set<Transactions.Transaction>> = new Map()
+  private candidateKeys: Map<number, string[]> = new Map()
+
+  // Keys a transaction could be matched on, including its foreign amount for matches across currencies
+  private static matchKeys (transaction: Transactions.Transaction): string[] {
+    const keys = [`${transaction.sourceId}|${transaction.destinationId}|${transaction.amount.toString()}`]
+    if (transaction.foreignAmount !== undefined) {
+      keys.push(`${transaction.sourceId}|${transaction.destinationId}|${transaction.foreignAmount.toString()}`)
+    }
+    return keys
+  }
+
   private index (transaction: Transactions.Transaction): void {
     this.transactions.set(transaction.id, transaction)
 
+    // Add transaction to candidateIndex
+    const keys = Transactions.matchKeys(transaction)
+    this.candidateKeys.set(transaction.id, keys)
+    keys.forEach(key => {
+      const candidates = this.candidateIndex.get(key) ?? new Set()
+      candidates.add(transaction)
+      this.candidateIndex.set(key, candidates)
+    })
+
     // Add transaction to fireflyIdIndex
     if (transaction.fireflyId !== undefined) {
       const existing = this.fireflyIdIndex.get(transaction.fireflyId)
@@ -33,14 +58,23 @@ export class Transactions implements Iterable<Transactions.Transaction> {
   }
 
   private deindex (transaction: Transactions.Transaction): void {
+    // Remove transaction from candidateIndex
+    this.candidateKeys.get(transaction.id)?.forEach(key => {
+      const candidates = this.candidateIndex.get(key)
+      candidates?.delete(transaction)
+      if (candidates?.size === 0) this.candidateIndex.delete(key)
+    })
+    this.candidateKeys.delete(transaction.id)
+
     // Remove transaction from fireflyIdIndex
-    if (transaction.fireflyId !== undefined) {
+    // Duplicated IDs are left pointing at the transaction that claimed them first
+    if (transaction.fireflyId !== undefined && this.fireflyIdIndex.get(transaction.fireflyId)?.id === transaction.id) {
       this.fireflyIdIndex.delete(transaction.fireflyId)
     }
 
     // Remove transaction from akahuIdIndex
     transaction.akahuIds.forEach(akahuId => {
-      this.akahuIdIndex.delete(akahuId)
+      if (this.akahuIdIndex.get(akahuId)?.id === transaction.id) this.akahuIdIndex.delete(akahuId)
     })
   }
 
@@ -50,6 +84,8 @@ export class Transactions implements Iterable<Transactions.Transaction> {
     clone.date = new Date(clone.date)
     clone.amount = new Big(clone.amount)
     if ('foreignAmount' in clone) clone.foreignAmount = new Big(clone.foreignAmount)
+    if ('tags' in clone) clone.tags = new Set(clone.tags)
+    if ('splits' in clone) clone.splits = clone.splits.map(split => ({ ...split, amount: new Big(split.amount) }))
     return clone
   }
 
@@ -93,6 +129,18 @@ export class Transactions implements Iterable<Transactions.Transaction> {
     this.index(transaction)
   }
 
+  public delete (id: number): void {
+    // Check if the ID exists
+    const existing = this.transactions.get(id)
+    if (existing === undefined) {
+      console.error(`Transaction ID ${id} doesn't exist`)
+      return
+    }
+
+    this.deindex(existing)
+    this.transactions.delete(id)
+  }
+
   public create (inputTransaction: Omit<Transactions.Transaction, 'id'>): Transactions.Transaction {
     const transaction = inputTransaction as Transactions.Transaction
     if (transaction.id === undefined) {
@@ -122,36 +170,136 @@ export class Transactions implements Iterable<Transactions.Transaction> {
         ([id, trans]) => [id, newTransactions.transactions.get(trans.id)!]
       )
     )
+    newTransactions.candidateKeys = new Map(this.candidateKeys)
+    newTransactions.candidateIndex = new Map(
+      [...this.candidateIndex].map(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        ([key, candidates]) => [key, new Set([...candidates].map(trans => newTransactions.transactions.get(trans.id)!))]
+      )
+    )
 
     return newTransactions
   }
 
-  private findBestTransaction (
+  // Transactions without a currency are assumed to be in the same currency as any other
+  private static sameCurrency (a: Transactions.Transaction, b: Transactions.Transaction): boolean {
+    return a.currencyCode === undefined || b.currencyCode === undefined || a.currencyCode === b.currencyCode
+  }
+
+  // Compare amounts in the same currency, using the foreign amount of one transaction if needed
+  private static sameAmount (a: Transactions.Transaction, b: Transactions.Transaction): boolean {
+    if (Transactions.sameCurrency(a, b)) return a.amount.eq(b.amount)
+    if (a.foreignCurrencyCode === b.currencyCode && a.foreignAmount?.eq(b.amount) === true) return true
+    return b.foreignCurrencyCode === a.currencyCode && b.foreignAmount?.eq(a.amount) === true
+  }
+
+  // Find the transactions in pool that could match transaction, in the same order as pool
+  // Every transaction is a candidate when reporting so near misses can be recorded
+  private findCandidates (
     transaction: Transactions.Transaction,
-    transactions: Transactions.Transaction[],
-    compare: (a: Transactions.Transaction, b: Transactions.Transaction) => boolean
+    index: Transactions,
+    pool: Map<number, Transactions.Transaction>,
+    ordinals: Map<number, number>,
+    report?: MatchReport
+  ): Transactions.Transaction[] {
+    if (report !== undefined) return [...pool.values()]
+
+    const candidates: Set<Transactions.Transaction> = new Set()
+    Transactions.matchKeys(transaction).forEach(key => {
+      index.candidateIndex.get(key)?.forEach(other => {
+        if (pool.get(other.id) === other) candidates.add(other)
+      })
+    })
+
+    return [...candidates].sort((a, b) => (ordinals.get(a.id) ?? 0) - (ordinals.get(b.id) ?? 0))
+  }
+
+  // Find the transaction in pool imported from the same Akahu transactions
+  // Its amount and accounts may have changed since it was exported, so they aren't checked
+  // A transfer leg exported on its own (left) matches the transfer (right) once its other leg arrives
+  // but a single leg on the right never matches a transfer already on the left
+  private findByAkahuIds (
+    transaction: Transactions.Transaction,
+    index: Transactions,
+    pool: Map<number, Transactions.Transaction>,
+    isLeft: boolean
   ): Transactions.Transaction | undefined {
-    // Find transactions with the same source, destination and amount
-    const matches = transactions.filter(other => {
-      // Check firefly IDs match
-      if (transaction.fireflyId !== undefined && other.fireflyId !== undefined && transaction.fireflyId !== other.fireflyId) {
-        return false
-      }
+    for (const akahuId of transaction.akahuIds) {
+      const other = index.akahuIdIndex.get(akahuId)
+      if (other === undefined || pool.get(other.id) !== other) continue
+
+      const [left, right] = isLeft ? [transaction, other] : [other, transaction]
+      if ([...left.akahuIds].every(id => right.akahuIds.has(id))) return other
+    }
+    return undefined
+  }
+
+  // Matches must be within 3 days of each other when there is more than one
+  private static readonly WINDOW = 3 * 24 * 60 * 60 * 1000
 
-      // Check foreign amount details match
+  // Apply each filter used to find matching transactions
+  private checkCandidate (
+    transaction: Transactions.Transaction,
+    other: Transactions.Transaction,
+    compare: (a: Transactions.Transaction, b: Transactions.Transaction) => boolean
+  ): Omit<MatchReport.Checks, 'window'> {
+    // Check foreign amount details match, when both amounts are in the same currency
+    let foreignAmount = true
+    if (Transactions.sameCurrency(transaction, other)) {
       if ('foreignAmount' in transaction && 'foreignAmount' in other && !transaction.foreignAmount.eq(other.foreignAmount)) {
-        return false
+        foreignAmount = false
       }
       if ('foreignCurrencyCode' in transaction && 'foreignCurrencyCode' in other && transaction.foreignCurrencyCode !== other.foreignCurrencyCode) {
-        return false
+        foreignAmount = false
       }
+    }
 
-      return transaction.sourceId === other.sourceId &&
-        transaction.destinationId === other.destinationId &&
-        transaction.amount.eq(other.amount) &&
-        compare(transaction, other)
-    })
+    return {
+      // Check firefly IDs match
+      fireflyId: transaction.fireflyId === undefined || other.fireflyId === undefined || transaction.fireflyId === other.fireflyId,
+      foreignAmount,
+      accounts: transaction.sourceId === other.sourceId && transaction.destinationId === other.destinationId,
+      amount: Transactions.sameAmount(transaction, other),
+      compare: compare(transaction, other)
+    }
+  }
 
+  private findBestTransaction (
+    transaction: Transactions.Transaction,
+    transactions: Transactions.Transaction[],
+    compare: (a: Transactions.Transaction, b: Transactions.Transaction) => boolean,
+    report?: MatchReport
+  ): Transactions.Transaction | undefined {
+    // Find transactions with the same source, destination and amount
+    // Split transactions are compared using their total amount
+    const checked = transactions.map(other => ({ other, checks: this.checkCandidate(transaction, other, compare) }))
+    const matches = checked.filter(({ checks }) => Object.values(checks).every(Boolean)).map(({ other }) => other)
+
+    const match = this.pickBestTransaction(transaction, matches)
+
+    // Record near misses (candidates failing at most one filter) as well as matches
+    if (report !== undefined) {
+      const candidates = checked
+        .filter(({ checks }) => Object.values(checks).filter(passed => !passed).length <= 1)
+        .map(({ other, checks }) => {
+          const dateDifference = Math.abs(transaction.date.getTime() - other.date.getTime())
+          return {
+            transaction: other,
+            checks: { ...checks, window: matches.length < 2 || dateDifference < Transactions.WINDOW },
+            dateDifference,
+            descriptionScore: compareTwoStrings(transaction.description, other.description)
+          }
+        })
+      report.addMerge(transaction, candidates, match)
+    }
+
+    return match
+  }
+
+  private pickBestTransaction (
+    transaction: Transactions.Transaction,
+    matches: Transactions.Transaction[]
+  ): Transactions.Transaction | undefined {
     // Return early if there are 0 or 1 matches
     if (matches.length < 2) return matches[0]
 
@@ -166,7 +314,7 @@ export class Transactions implements Iterable<Transactions.Transaction> {
       date: Math.abs(transaction.date.getTime() - other.date.getTime()), // Similarity to target date
       description: compareTwoStrings(transaction.description, other.description), // Similarity to target description
       transaction: other
-    })).filter(x => x.date < 3 * 24 * 60 * 60 * 1000) // Ensure transaction is within 3 days of target
+    })).filter(x => x.date < Transactions.WINDOW) // Ensure transaction is within 3 days of target
 
     // Sort by date and then description
     similarities.sort((a, b) => {
@@ -182,22 +330,167 @@ export class Transactions implements Iterable<Transactions.Transaction> {
     return similarities[0]?.transaction
   }
 
+  // Merge a single valued field of transaction b into transaction a
+  private static mergeField<K extends keyof Transactions.Transaction> (
+    a: Transactions.Transaction,
+    b: Transactions.Transaction,
+    field: K,
+    strategy: MergePolicy.Strategy
+  ): void {
+    const value = b[field]
+    if (value === undefined || strategy === MergePolicy.Strategy.Keep) return
+    if (strategy === MergePolicy.Strategy.Replace || a[field] === undefined) a[field] = value
+  }
+
+  // Take the amount and accounts of transaction b, which comes from the same Akahu transaction as a
+  // Split transactions keep their amounts as they are divided between the splits
+  private static mergeAmounts (a: Transactions.Transaction, b: Transactions.Transaction): void {
+    if (a.splits !== undefined) return
+    a.amount = b.amount
+    a.sourceId = b.sourceId
+    a.destinationId = b.destinationId
+    if ('currencyCode' in b) a.currencyCode = b.currencyCode
+  }
+
   /**
-   * Populate missing details in transaction a with details from transaction
+   * Populate details in transaction a with details from transaction b
+   *
+   * Each field is merged using the given strategies
    */
-  private mergeTransactions (a: Transactions.Transaction, b: Transactions.Transaction): void {
+  private mergeTransactions (a: Transactions.Transaction, b: Transactions.Transaction, strategies: MergePolicy.Strategies): void {
+    const { Strategy } = MergePolicy
+
     // Update transaction a from transaction b
     a.fireflyId ??= b.fireflyId
     a.akahuIds = new Set([...a.akahuIds, ...b.akahuIds])
-    a.date ??= b.date
-    if ('foreignAmount' in b) a.foreignAmount ??= b.foreignAmount
-    if ('foreignCurrencyCode' in b) a.foreignCurrencyCode ??= b.foreignCurrencyCode
-    if ('categoryName' in b) a.categoryName ??= b.categoryName
+
+    // Settled transactions replace provisional ones
+    if (a.akahuIds.size > 0) {
+      delete a.pendingId
+    } else if ('pendingId' in b) {
+      a.pendingId ??= b.pendingId
+    }
+    if ('currencyCode' in b) a.currencyCode ??= b.currencyCode
+    if ('splits' in b) a.splits ??= b.splits
+
+    // Keeping both descriptions combines them
+    if (strategies.description === Strategy.Both) {
+      if (!a.description.includes(b.description)) a.description = `${a.description} - ${b.description}`
+    } else {
+      Transactions.mergeField(a, b, 'description', strategies.description)
+    }
 
     // Use transaction B's date if it has the transaction time set
-    if (b.date.getMinutes() !== 0 || b.date.getHours() !== 0) {
+    const timed = b.date.getMinutes() !== 0 || b.date.getHours() !== 0
+    if (strategies.date === Strategy.Replace || (strategies.date === Strategy.Timed && timed)) {
       a.date = b.date
     }
+
+    Transactions.mergeField(a, b, 'foreignAmount', strategies.foreignAmount)
+    Transactions.mergeField(a, b, 'foreignCurrencyCode', strategies.foreignAmount)
+    Transactions.mergeField(a, b, 'exchangeRate', strategies.foreignAmount)
+    Transactions.mergeField(a, b, 'categoryName', strategies.category)
+    Transactions.mergeField(a, b, 'budgetName', strategies.budget)
+    Transactions.mergeField(a, b, 'particulars', strategies.paymentDetails)
+    Transactions.mergeField(a, b, 'code', strategies.paymentDetails)
+    Transactions.mergeField(a, b, 'reference', strategies.paymentDetails)
+
+    // Keeping both sets of tags combines them
+    if (strategies.tags === Strategy.Both) {
+      if ('tags' in b) a.tags = new Set([...(a.tags ?? []), ...b.tags])
+    } else {
+      Transactions.mergeField(a, b, 'tags', strategies.tags)
+    }
+
+    // Keeping both notes appends transaction B's notes
+    if (strategies.notes === Strategy.Both) {
+      if (a.notes === undefined) {
+        Transactions.mergeField(a, b, 'notes', Strategy.Fill)
+      } else if (b.notes !== undefined && !a.notes.includes(b.notes)) {
+        a.notes = `${a.notes}\n\n${b.notes}`
+      }
+    } else {
+      Transactions.mergeField(a, b, 'notes', strategies.notes)
+    }
+  }
+
+  // Transactions from different Akahu or pending transactions are never duplicates
+  private static conflicting (a: Transactions.Transaction, b: Transactions.Transaction): boolean {
+    if (a.akahuIds.size > 0 && b.akahuIds.size > 0) return ![...a.akahuIds].some(akahuId => b.akahuIds.has(akahuId))
+    return a.pendingId !== undefined && b.pendingId !== undefined && a.pendingId !== b.pendingId
+  }
+
+  // Duplicates are merged into the transaction that is kept, combining their details
+  private static readonly DEDUPE_POLICY: MergePolicy.Strategies = {
+    ...MergePolicy.DEFAULT,
+    description: MergePolicy.Strategy.Keep,
+    notes: MergePolicy.Strategy.Both
+  }
+
+  /**
+   * Find groups of transactions that are likely to be duplicates of each other
+   *
+   * Transactions are duplicates if they claim the same Akahu ID, or have the same accounts and
+   * amount within 3 days of each other without conflicting Akahu IDs.
+   * The transaction to keep is first in each group: split transactions, then the most Akahu IDs, then the oldest
+   */
+  public findDuplicates (): Transactions.Transaction[][] {
+    // Transactions claiming each Akahu ID, as only the first is indexed
+    const claims: Map<string, Transactions.Transaction[]> = new Map()
+    this.transactions.forEach(transaction => {
+      transaction.akahuIds.forEach(akahuId => {
+        claims.set(akahuId, [...(claims.get(akahuId) ?? []), transaction])
+      })
+    })
+
+    const grouped: Set<number> = new Set()
+    const groups: Transactions.Transaction[][] = []
+    this.transactions.forEach(transaction => {
+      if (grouped.has(transaction.id)) return
+      const group = [transaction]
+
+      const shared = [...transaction.akahuIds].flatMap(akahuId => claims.get(akahuId) ?? [])
+      const candidates = this.findCandidates(transaction, this, this.transactions, new Map())
+      for (const other of new Set([...shared, ...candidates])) {
+        if (other.id === transaction.id || grouped.has(other.id)) continue
+        if (group.some(member => Transactions.conflicting(member, other))) continue
+
+        // Firefly IDs always differ so are not checked
+        if (!shared.includes(other)) {
+          const { fireflyId: _, ...checks } = this.checkCandidate(transaction, other, _ => true)
+          if (!Object.values(checks).every(Boolean)) continue
+          if (Math.abs(transaction.date.getTime() - other.date.getTime()) >= Transactions.WINDOW) continue
+        }
+
+        group.push(other)
+      }
+
+      if (group.length < 2) return
+      group.forEach(member => grouped.add(member.id))
+      group.sort((a, b) => {
+        const splitCompare = Number(b.splits !== undefined) - Number(a.splits !== undefined)
+        if (splitCompare !== 0) return splitCompare
+        const akahuCompare = b.akahuIds.size - a.akahuIds.size
+        if (akahuCompare !== 0) return akahuCompare
+        return (a.fireflyId ?? Infinity) - (b.fireflyId ?? Infinity)
+      })
+      groups.push(group.map(member => this.clone(member)))
+    })
+
+    return groups
+  }
+
+  // Merge a group of duplicates from findDuplicates into its first transaction and delete the rest
+  public mergeDuplicates (group: Transactions.Transaction[]): Transactions.Transaction | undefined {
+    const [keep, ...duplicates] = group
+    if (keep === undefined) return undefined
+
+    duplicates.forEach(duplicate => {
+      this.mergeTransactions(keep, duplicate, Transactions.DEDUPE_POLICY)
+      this.delete(duplicate.id)
+    })
+    this.save(keep)
+    return keep
   }
 
   /**
@@ -206,21 +499,31 @@ export class Transactions implements Iterable<Transactions.Transaction> {
    * De-duplicates transactions
    *
    * @param other Other set of transactions
+   * @param report Records the candidates considered for each transaction
+   * @param policy Gives the strategies used to merge the fields of each matched transaction
    * @returns {Object} Lists of transactions that are unique to the left and right hand sides of the merge
    */
   public merge (
     other: Transactions,
     compare: (a: Transactions.Transaction, b: Transactions.Transaction) => boolean = _ => true,
-    merge: (a: Transactions.Transaction, b: Transactions.Transaction) => void = _ => _
+    merge: (a: Transactions.Transaction, b: Transactions.Transaction) => void = _ => _,
+    report?: MatchReport,
+    policy: (transaction: Transactions.Transaction) => MergePolicy.Strategies = _ => MergePolicy.DEFAULT
   ): { left: Map<number, Transactions.Transaction>, right: Map<number, Transactions.Transaction> } {
     // Clone transaction maps
     const left: Map<number, Transactions.Transaction> = new Map(this.transactions)
     const right: Map<number, Transactions.Transaction> = new Map(other.transactions)
 
+    // Position of each transaction, so indexed candidates are considered in the same order
+    const leftOrder = new Map([...left.keys()].map((id, ix) => [id, ix]))
+    const rightOrder = new Map([...right.keys()].map((id, ix) => [id, ix]))
+
     // Look for transactions in left that match transactions in `other`
     left.forEach(transaction => {
-      // Find the best matching transaction
-      const match = this.findBestTransaction(transaction, [...right.values()], compare)
+      // Transactions from the same Akahu transactions always match, otherwise find the best matching transaction
+      const sameAkahu = this.findByAkahuIds(transaction, other, right, true)
+      if (sameAkahu !== undefined) report?.addMerge(transaction, [], sameAkahu)
+      const match = sameAkahu ?? this.findBestTransaction(transaction, this.findCandidates(transaction, other, right, rightOrder, report), compare, report)
 
       // Merge the two transactions if a match was found
       if (match !== undefined) {
@@ -229,7 +532,8 @@ export class Transactions implements Iterable<Transactions.Transaction> {
         right.delete(match.id)
 
         // Merged transactions
-        this.mergeTransactions(transaction, match)
+        this.mergeTransactions(transaction, match, policy(transaction))
+        if (sameAkahu !== undefined) Transactions.mergeAmounts(transaction, match)
         merge(transaction, match)
         this.save(transaction)
       }
@@ -237,8 +541,10 @@ export class Transactions implements Iterable<Transactions.Transaction> {
 
     // Look for transactions in `other` that match transactions in left
     right.forEach(transaction => {
-      // Find the best matching transaction
-      const match = this.findBestTransaction(transaction, [...left.values()], compare)
+      // Transactions from the same Akahu transactions always match, otherwise find the best matching transaction
+      const sameAkahu = this.findByAkahuIds(transaction, this, left, false)
+      if (sameAkahu !== undefined) report?.addMerge(transaction, [], sameAkahu)
+      const match = sameAkahu ?? this.findBestTransaction(transaction, this.findCandidates(transaction, this, left, leftOrder, report), compare, report)
 
       if (match === undefined) {
         // Add transactions that are only in `other`
@@ -249,7 +555,8 @@ export class Transactions implements Iterable<Transactions.Transaction> {
         right.delete(transaction.id)
 
         // Merged transactions
-        this.mergeTransactions(match, transaction)
+        this.mergeTransactions(match, transaction, policy(match))
+        if (sameAkahu !== undefined) Transactions.mergeAmounts(match, transaction)
         merge(match, transaction)
         this.save(match)
       }
@@ -266,19 +573,45 @@ export class Transactions implements Iterable<Transactions.Transaction> {
 }
 
 export namespace Transactions {
+  // Part of a split transaction
+  export interface Split {
+    journalId?: number
+    description: string
+    amount: Big
+    sourceId: number
+    destinationId: number
+    currencyCode?: string
+    foreignAmount?: Big
+    foreignCurrencyCode?: string
+    categoryName?: string
+    budgetName?: string
+  }
+
   // Export Transaction type
   // Transfer transactions must have a second akahuId
+  // Provisional transactions (not yet settled in Akahu) have a pendingId instead
+  // Split transactions use the total amount and the accounts of their first split
   export interface Transaction {
     id: number
     fireflyId: number | undefined
     akahuIds: Set<string>
+    pendingId?: string
     description: string
     date: Date
     amount: Big
     sourceId: number
     destinationId: number
+    currencyCode?: string
     foreignAmount?: Big
     foreignCurrencyCode?: string
+    exchangeRate?: string
     categoryName?: string
+    budgetName?: string
+    tags?: Set<string>
+    particulars?: string
+    code?: string
+    reference?: string
+    notes?: string
+    splits?: Split[]
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,142 @@
+import { createServer } from 'http'
+import type { IncomingMessage, Server, ServerResponse } from 'http'
+import type { AkahuClient, WebhookPayload } from 'akahu'
+
+// Receives Akahu webhooks and runs a sync for the affected accounts
+// Events are debounced so a burst of webhooks results in a single sync
+export class WebhookServer {
+  private readonly server: Server
+
+  // Akahu accounts waiting to be synced, with the earliest transaction date to cover
+  private targets: Map<string, Date | undefined> = new Map()
+
+  // Akahu transactions reported as removed
+  private removedIds: Set<string> = new Set()
+  private timer: NodeJS.Timeout | undefined
+
+  // Syncs are run one at a time
+  private running: Promise<void> = Promise.resolve()
+
+  private readonly akahu: AkahuClient
+  private readonly userToken: string
+  private readonly debounceSeconds: number
+  private readonly sync: (targets: Map<string, Date | undefined>, removedIds: string[]) => Promise<void>
+
+  constructor (
+    akahu: AkahuClient,
+    userToken: string,
+    debounceSeconds: number,
+    sync: (targets: Map<string, Date | undefined>, removedIds: string[]) => Promise<void>
+  ) {
+    this.akahu = akahu
+    this.userToken = userToken
+    this.debounceSeconds = debounceSeconds
+    this.sync = sync
+    this.server = createServer((request, response) => {
+      void this.handleRequest(request, response)
+    })
+  }
+
+  // Start listening, resolving once the server has closed
+  public async listen (port: number): Promise<void> {
+    await new Promise((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.once('close', resolve)
+      this.server.listen(port)
+    })
+  }
+
+  private async readBody (request: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = []
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+  }
+
+  private async handleRequest (request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'POST') {
+      response.writeHead(405).end()
+      return
+    }
+
+    const signature = request.headers['x-akahu-signature']
+    const keyId = request.headers['x-akahu-signing-key']
+    if (typeof signature !== 'string' || typeof keyId !== 'string') {
+      response.writeHead(400).end()
+      return
+    }
+
+    // Verify the webhook was sent by Akahu
+    let payload: WebhookPayload
+    try {
+      const body = await this.readBody(request)
+      payload = await this.akahu.webhooks.validateWebhook(keyId, signature, body)
+    } catch (e: any) {
+      console.error('Rejected webhook', e?.message)
+      response.writeHead(401).end()
+      return
+    }
+
+    // Respond straight away, Akahu doesn't need to wait for the sync
+    response.writeHead(200).end()
+
+    try {
+      await this.handlePayload(payload)
+    } catch (e: any) {
+      console.error('Failed to process webhook', payload, e?.message)
+    }
+  }
+
+  private async handlePayload (payload: WebhookPayload): Promise<void> {
+    console.log(`Received ${payload.webhook_type} ${payload.webhook_code} webhook`)
+    if (payload.webhook_code === 'WEBHOOK_CANCELLED') return
+
+    if (payload.webhook_type === 'TRANSACTION') {
+      // Cover the dates of any new transactions
+      let since: Date | undefined
+      if (payload.webhook_code === 'DEFAULT_UPDATE' && payload.new_transaction_ids.length > 0) {
+        const transactions = await this.akahu.transactions.getMany(this.userToken, payload.new_transaction_ids)
+        transactions.forEach(transaction => {
+          const date = new Date(transaction.date)
+          if (since === undefined || date < since) since = date
+        })
+      } else if (payload.webhook_code === 'DELETE') {
+        payload.removed_transactions.forEach(id => this.removedIds.add(id))
+      }
+      this.schedule(payload.item_id, since)
+    } else if (payload.webhook_type === 'ACCOUNT') {
+      // New accounts need their transactions synced, other changes only affect the account
+      if (payload.webhook_code === 'CREATE') {
+        this.schedule(payload.item_id, undefined)
+      } else {
+        this.schedule(undefined, undefined)
+      }
+    }
+  }
+
+  // Add an account to the next sync and restart the debounce timer
+  private schedule (accountId: string | undefined, since: Date | undefined): void {
+    if (accountId !== undefined) {
+      const existing = this.targets.get(accountId)
+      this.targets.set(accountId, existing === undefined || (since !== undefined && since < existing) ? since : existing)
+    }
+
+    if (this.timer !== undefined) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      const targets = this.targets
+      const removedIds = [...this.removedIds]
+      this.targets = new Map()
+      this.removedIds = new Set()
+
+      this.running = this.running.then(async () => {
+        console.log(`Syncing Akahu accounts ${[...targets.keys()].join(', ')}`)
+        await this.sync(targets, removedIds)
+        console.log('Finished sync')
+      }).catch(e => {
+        console.error('Sync failed', e)
+      })
+    }, this.debounceSeconds * 1000)
+  }
+}
@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('akahu_pending_transactions', table => {
+    table.string('id')
+    table.json('data')
+    table.primary(['id'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('akahu_pending_transactions')
+}
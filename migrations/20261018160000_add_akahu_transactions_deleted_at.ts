@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_transactions', table => {
+    table.timestamp('deleted_at', { useTz: true }).nullable()
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_transactions', table => {
+    table.dropColumn('deleted_at')
+  })
+}
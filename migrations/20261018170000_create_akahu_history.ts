@@ -0,0 +1,22 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('akahu_history', table => {
+    table.increments('id')
+    table.string('akahu_id').index()
+    table.json('data')
+    table.timestamp('fetched_at', { useTz: true })
+  })
+
+  // Seed the history with the currently cached versions
+  for (const cacheTable of ['akahu_accounts', 'akahu_transactions']) {
+    await knex.raw(`
+      INSERT INTO akahu_history (akahu_id, data, fetched_at)
+      SELECT id, data, NOW() FROM ??
+    `, [cacheTable])
+  }
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('akahu_history')
+}
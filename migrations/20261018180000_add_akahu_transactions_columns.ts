@@ -0,0 +1,35 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_transactions', table => {
+    table.string('_account')
+    table.timestamp('date', { useTz: true })
+    table.decimal('amount', 14, 2)
+    table.string('merchant_id').nullable()
+    table.string('type')
+    table.index(['_account', 'date'])
+    table.index(['date'])
+    table.index(['merchant_id'])
+    table.index(['type'])
+  })
+
+  // Populate the new columns from the cached data
+  await knex.raw(`
+    UPDATE akahu_transactions SET
+      _account = data->>'_account',
+      date = (data->>'date')::timestamptz,
+      amount = (data->>'amount')::numeric,
+      merchant_id = data->'merchant'->>'_id',
+      type = data->>'type'
+  `)
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_transactions', table => {
+    table.dropIndex(['_account', 'date'])
+    table.dropIndex(['date'])
+    table.dropIndex(['merchant_id'])
+    table.dropIndex(['type'])
+    table.dropColumns('_account', 'date', 'amount', 'merchant_id', 'type')
+  })
+}
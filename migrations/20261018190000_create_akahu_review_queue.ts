@@ -0,0 +1,17 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('akahu_review_queue', table => {
+    table.string('id')
+    table.string('description')
+    table.json('candidates')
+    table.timestamp('created_at', { useTz: true })
+    table.string('account').nullable()
+    table.timestamp('resolved_at', { useTz: true }).nullable()
+    table.primary(['id'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('akahu_review_queue')
+}
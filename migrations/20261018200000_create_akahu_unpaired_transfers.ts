@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('akahu_unpaired_transfers', table => {
+    table.string('id')
+    table.timestamp('first_seen_at', { useTz: true })
+    table.primary(['id'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('akahu_unpaired_transfers')
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('firefly_fingerprints', table => {
+    table.integer('id')
+    table.json('data')
+    table.timestamp('written_at', { useTz: true })
+    table.primary(['id'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('firefly_fingerprints')
+}
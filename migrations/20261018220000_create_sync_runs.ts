@@ -0,0 +1,25 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('sync_runs', table => {
+    table.increments('id')
+    table.timestamp('started_at', { useTz: true })
+    table.timestamp('finished_at', { useTz: true }).nullable()
+    table.timestamp('rolled_back_at', { useTz: true }).nullable()
+  })
+
+  await knex.schema.createTable('sync_run_changes', table => {
+    table.increments('id')
+    table.integer('run_id').references('sync_runs.id').index()
+    table.string('entity')
+    table.string('action')
+    table.integer('firefly_id')
+    table.json('previous').nullable()
+    table.timestamp('changed_at', { useTz: true })
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('sync_run_changes')
+  await knex.schema.dropTable('sync_runs')
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('akahu_chosen_accounts', table => {
+    table.string('id')
+    table.text('account')
+    table.timestamp('chosen_at', { useTz: true })
+    table.primary(['id'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('akahu_chosen_accounts')
+}
@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_chosen_accounts', table => {
+    table.boolean('corrected').notNullable().defaultTo(false)
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.alterTable('akahu_chosen_accounts', table => {
+    table.dropColumn('corrected')
+  })
+}
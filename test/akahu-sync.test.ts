@@ -0,0 +1,136 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import path from 'path'
+import knex from 'knex'
+import type { Knex } from 'knex'
+import { AkahuClient } from 'akahu'
+import type { Account, PendingTransaction, Transaction } from 'akahu'
+import { PGlite } from '@electric-sql/pglite'
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket'
+
+import { refreshAkahuData, syncAkahu } from '../lib/akahu-sync'
+import { FakeAkahu } from './fake-akahu'
+
+const userToken = 'user_token_test'
+
+function account (id: string, attributes: Account['attributes']): Account {
+  return {
+    _id: id,
+    _credentials: 'creds_test',
+    connection: { _id: 'conn_test', name: 'Test Bank', logo: '' },
+    name: `Account ${id}`,
+    status: 'ACTIVE',
+    type: 'CHECKING',
+    attributes,
+    refreshed: { transactions: '2026-10-01T00:00:00.000Z' }
+  }
+}
+
+function transaction (id: string, accountId: string, date: string, amount: number): Transaction {
+  return {
+    _id: id,
+    _user: 'user_test',
+    _account: accountId,
+    _connection: 'conn_test',
+    created_at: date,
+    updated_at: date,
+    date,
+    hash: `hash_${id}`,
+    description: `Transaction ${id}`,
+    amount,
+    type: 'EFTPOS'
+  }
+}
+
+function pendingTransaction (accountId: string, date: string, amount: number): PendingTransaction {
+  return {
+    _user: 'user_test',
+    _account: accountId,
+    _connection: 'conn_test',
+    updated_at: date,
+    date,
+    description: 'Pending transaction',
+    amount,
+    type: 'EFTPOS'
+  }
+}
+
+let pglite: PGlite
+let pgServer: PGLiteSocketServer
+let db: Knex
+let fake: FakeAkahu
+let akahu: AkahuClient
+
+before(async () => {
+  // PGlite only takes one connection at a time, so the pool is limited to one
+  pglite = await PGlite.create()
+  pgServer = new PGLiteSocketServer({ db: pglite, port: 0 })
+  await pgServer.start()
+  db = knex({
+    client: 'pg',
+    connection: `postgres://postgres@${pgServer.getServerConn()}/postgres`,
+    pool: { min: 0, max: 1 }
+  })
+  await db.migrate.latest({ directory: path.join(__dirname, '..', 'migrations'), loadExtensions: ['.ts'] })
+
+  fake = new FakeAkahu(200, 2)
+  const port = await fake.start()
+  akahu = new AkahuClient({ appToken: 'app_token_test', host: '127.0.0.1', port, protocol: 'http' })
+})
+
+after(async () => {
+  await fake.stop()
+  await db.destroy()
+  await pgServer.stop()
+  await pglite.close()
+})
+
+void test('refreshes Akahu then caches the refreshed transactions', async () => {
+  fake.accounts = [account('acc_1', ['TRANSACTIONS']), account('acc_2', [])]
+  fake.transactions = [
+    transaction('trans_1', 'acc_1', '2026-10-02T00:00:00.000Z', -10),
+    transaction('trans_2', 'acc_1', '2026-10-03T00:00:00.000Z', -20),
+    transaction('trans_3', 'acc_1', '2026-10-04T00:00:00.000Z', 30)
+  ]
+  fake.unrefreshed = [transaction('trans_4', 'acc_1', '2026-10-05T00:00:00.000Z', -40)]
+  fake.pending = [pendingTransaction('acc_1', '2026-10-06T00:00:00.000Z', -50)]
+
+  await refreshAkahuData(db, akahu, userToken, 5, 0.05)
+  await syncAkahu(db, akahu, userToken, undefined, 3, false)
+
+  // The sync only starts once the refresh has finished
+  const requests = fake.requests.map(request => `${request.method} ${request.path}`)
+  const refreshed = requests.indexOf('POST /refresh')
+  const synced = requests.indexOf('GET /accounts/acc_1/transactions')
+  assert.ok(refreshed !== -1 && synced > refreshed)
+  assert.ok(requests.slice(refreshed + 1, synced).filter(request => request === 'GET /accounts').length > 1)
+
+  // Every page is fetched, including the transaction published by the refresh
+  const cached: string[] = await db('akahu_transactions').whereNull('deleted_at').orderBy('id').pluck('id')
+  assert.deepEqual(cached, ['trans_1', 'trans_2', 'trans_3', 'trans_4'])
+  assert.ok(fake.requests.some(request => request.query['cursor'] !== undefined))
+
+  // Accounts without transactions are cached but not synced
+  const accounts: string[] = await db('akahu_accounts').orderBy('id').pluck('id')
+  assert.deepEqual(accounts, ['acc_1', 'acc_2'])
+  assert.ok(!requests.includes('GET /accounts/acc_2/transactions'))
+
+  const states: string[] = await db('akahu_sync_state').pluck('id')
+  assert.deepEqual(states, ['acc_1'])
+
+  const pending: PendingTransaction[] = await db('akahu_pending_transactions').pluck('data')
+  assert.deepEqual(pending, fake.pending)
+})
+
+void test('marks transactions Akahu no longer returns as deleted', async () => {
+  fake.transactions = fake.transactions.filter(transaction => transaction._id !== 'trans_2')
+  fake.pending = []
+
+  await syncAkahu(db, akahu, userToken, undefined, 3, true)
+
+  const deleted: string[] = await db('akahu_transactions').whereNotNull('deleted_at').pluck('id')
+  assert.deepEqual(deleted, ['trans_2'])
+
+  const pending: number = (await db('akahu_pending_transactions').pluck('id')).length
+  assert.equal(pending, 0)
+})
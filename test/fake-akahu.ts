@@ -0,0 +1,123 @@
+import { createServer } from 'http'
+import type { IncomingMessage, Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import type { Account, PendingTransaction, Transaction } from 'akahu'
+
+// A local stand-in for the Akahu API serving the endpoints the importer uses
+// Refreshes finish after a delay, at which point the bank's new transactions
+// are published and every account's refresh time moves forward
+export class FakeAkahu {
+  accounts: Account[] = []
+  transactions: Transaction[] = []
+  pending: PendingTransaction[] = []
+
+  // Transactions the bank has but Akahu only sees after the next refresh
+  unrefreshed: Transaction[] = []
+
+  requests: FakeAkahu.Request[] = []
+
+  private readonly server: Server
+  private readonly timers: Set<NodeJS.Timeout> = new Set()
+
+  constructor (
+    private readonly refreshDelayMs: number,
+    private readonly pageSize: number
+  ) {
+    this.server = createServer((request, response) => {
+      this.handle(request, response)
+    })
+  }
+
+  // Listen on a free local port, returning the port
+  async start (): Promise<number> {
+    await new Promise<void>(resolve => {
+      this.server.listen(0, '127.0.0.1', resolve)
+    })
+    return (this.server.address() as AddressInfo).port
+  }
+
+  async stop (): Promise<void> {
+    this.timers.forEach(timer => { clearTimeout(timer) })
+    this.timers.clear()
+    await new Promise<void>((resolve, reject) => {
+      this.server.close(error => {
+        if (error === undefined) resolve()
+        else reject(error)
+      })
+    })
+  }
+
+  private handle (request: IncomingMessage, response: ServerResponse): void {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    const method = request.method ?? 'GET'
+    const path = url.pathname.replace(/^\/v1/, '')
+    const query = Object.fromEntries(url.searchParams)
+    this.requests.push({ method, path, query })
+
+    if (request.headers.authorization?.startsWith('Bearer ') !== true) {
+      this.send(response, 401, { success: false, message: 'Unauthorized' })
+      return
+    }
+
+    const transactionsPath = path.match(/^\/accounts\/([^/]+)\/transactions$/)
+    if (method === 'GET' && path === '/accounts') {
+      this.send(response, 200, { success: true, items: this.accounts })
+    } else if (method === 'POST' && path === '/refresh') {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer)
+        this.refresh()
+      }, this.refreshDelayMs)
+      this.timers.add(timer)
+      this.send(response, 200, { success: true })
+    } else if (method === 'GET' && transactionsPath?.[1] !== undefined) {
+      this.send(response, 200, { success: true, ...this.page(transactionsPath[1], query) })
+    } else if (method === 'GET' && path === '/transactions/pending') {
+      this.send(response, 200, { success: true, items: this.pending })
+    } else {
+      this.send(response, 404, { success: false, message: `No route for ${method} ${path}` })
+    }
+  }
+
+  // Publish the bank's new transactions and mark every account as refreshed
+  private refresh (): void {
+    this.transactions.push(...this.unrefreshed)
+    this.unrefreshed = []
+
+    const refreshedAt = new Date().toISOString()
+    this.accounts.forEach(account => {
+      account.refreshed = { ...account.refreshed, transactions: refreshedAt }
+    })
+  }
+
+  // Get a page of an account's transactions within the requested window
+  // The cursor is the offset of the page
+  private page (accountId: string, query: Record<string, string>): { items: Transaction[], cursor: { next: string | null } } {
+    const start = query['start']
+    const end = query['end']
+    const transactions = this.transactions
+      .filter(transaction => transaction._account === accountId)
+      .filter(transaction => start === undefined || new Date(transaction.date) >= new Date(start))
+      .filter(transaction => end === undefined || new Date(transaction.date) <= new Date(end))
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    const offset = parseInt(query['cursor'] ?? '0')
+    const next = offset + this.pageSize
+    return {
+      items: transactions.slice(offset, next),
+      cursor: { next: next < transactions.length ? next.toString() : null }
+    }
+  }
+
+  private send (response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+}
+
+export namespace FakeAkahu {
+  export interface Request {
+    method: string
+    path: string
+    query: Record<string, string>
+  }
+}